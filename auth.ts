@@ -0,0 +1,344 @@
+/**
+ * Authentication for the Streamable HTTP endpoint.
+ *
+ * Two kinds of bearer token are accepted on /mcp, either or both:
+ *
+ *   API keys     — static secrets listed in MCP_API_KEYS, for scripts and
+ *                  hosts configured by hand
+ *   OAuth tokens — issued by the authorization server at OAUTH_ISSUER and
+ *                  checked with its token introspection endpoint (RFC 7662)
+ *
+ * With OAuth configured the server also publishes OAuth protected-resource
+ * metadata (RFC 9728), so hosts that speak the MCP authorization flow (e.g.
+ * Claude Web) can discover the authorization server and sign the user in.
+ * Access tokens are only ever accepted here, never passed on: to open private
+ * NExS apps, each one is traded for a NExS token by token exchange (RFC 8693).
+ *
+ * Everything is opt-in: with neither variable set /mcp stays open.  stdio
+ * never goes through this module.
+ */
+import { discoverAuthorizationServerMetadata } from "@modelcontextprotocol/sdk/client/auth.js";
+import { InvalidTokenError, ServerError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { requireBearerAuth } from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
+import type { OAuthTokenVerifier } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import {
+  getOAuthProtectedResourceMetadataUrl,
+  mcpAuthMetadataRouter,
+} from "@modelcontextprotocol/sdk/server/auth/router.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { OAuthMetadata } from "@modelcontextprotocol/sdk/shared/auth.js";
+import type { RequestHandler, Router } from "express";
+import { createHash, timingSafeEqual } from "node:crypto";
+import { log } from "./logger.js";
+
+export interface HttpAuth {
+  /** Rejects /mcp requests without a valid bearer token. */
+  middleware: RequestHandler;
+  /** Serves the protected-resource metadata; null without OAuth. */
+  metadataRouter: Router | null;
+}
+
+/**
+ * API keys never expire, but requireBearerAuth insists on an expiry, so each
+ * verified key is stamped as valid for this long from the request.
+ */
+const API_KEY_VALIDITY_S = 3600;
+
+/** Longest an introspection result is reused before asking again. */
+const INTROSPECTION_CACHE_MS = 60_000;
+
+/** Most introspection results cached at once; the least recently used go first. */
+const INTROSPECTION_CACHE_MAX = 1_000;
+
+const INTROSPECTION_TIMEOUT_MS = 5_000;
+
+const TOKEN_EXCHANGE_GRANT = "urn:ietf:params:oauth:grant-type:token-exchange";
+const ACCESS_TOKEN_TYPE = "urn:ietf:params:oauth:token-type:access_token";
+
+interface ClientCredentials {
+  clientId: string;
+  clientSecret: string;
+}
+
+/** Form-encoded POST headers, with HTTP Basic client authentication when configured. */
+function formHeaders(credentials: ClientCredentials | null): Record<string, string> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  };
+  if (credentials) {
+    const basic = `${encodeURIComponent(credentials.clientId)}:${encodeURIComponent(credentials.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(basic).toString("base64")}`;
+  }
+  return headers;
+}
+
+function sha256(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+/**
+ * Verifies MCP_API_KEYS.  Each key becomes its own client ("key-" plus a
+ * digest prefix), so sessions stay isolated per key, and carries every
+ * required scope.
+ */
+class ApiKeyVerifier implements OAuthTokenVerifier {
+  // Compared as digests so timingSafeEqual sees equal lengths.
+  private readonly digests: Buffer[];
+
+  constructor(
+    keys: string[],
+    private readonly scopes: string[],
+  ) {
+    this.digests = keys.map(sha256);
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const digest = sha256(token);
+    if (!this.digests.some((d) => timingSafeEqual(d, digest))) {
+      throw new InvalidTokenError("Invalid API key");
+    }
+    return {
+      token,
+      clientId: `key-${digest.toString("hex").slice(0, 12)}`,
+      scopes: this.scopes,
+      expiresAt: Math.floor(Date.now() / 1000) + API_KEY_VALIDITY_S,
+    };
+  }
+}
+
+interface IntrospectionResponse {
+  active: boolean;
+  client_id?: string;
+  sub?: string;
+  scope?: string;
+  exp?: number;
+  aud?: string | string[];
+}
+
+/**
+ * Trades a verified access token for a NExS token at the authorization
+ * server's token endpoint (RFC 8693), so the user's MCP token never leaves
+ * this server.
+ */
+class NexsTokenExchange {
+  constructor(
+    private readonly endpoint: string,
+    /** Audience of the NExS tokens to request, e.g. the NExS platform origin. */
+    private readonly audience: string,
+    private readonly credentials: ClientCredentials | null,
+  ) {}
+
+  /** The NExS token and its expiry (epoch seconds), or null when the exchange failed. */
+  async exchange(subjectToken: string): Promise<{ token: string; expiresAt: number | undefined } | null> {
+    try {
+      const resp = await fetch(this.endpoint, {
+        method: "POST",
+        headers: formHeaders(this.credentials),
+        body: new URLSearchParams({
+          grant_type: TOKEN_EXCHANGE_GRANT,
+          subject_token: subjectToken,
+          subject_token_type: ACCESS_TOKEN_TYPE,
+          requested_token_type: ACCESS_TOKEN_TYPE,
+          audience: this.audience,
+        }),
+        signal: AbortSignal.timeout(INTROSPECTION_TIMEOUT_MS),
+      });
+      if (!resp.ok) throw new Error(`token exchange returned ${resp.status}`);
+      const body = (await resp.json()) as { access_token?: string; expires_in?: number };
+      if (!body.access_token) throw new Error("token exchange returned no access_token");
+      const expiresAt = body.expires_in !== undefined ? Math.floor(Date.now() / 1000) + body.expires_in : undefined;
+      return { token: body.access_token, expiresAt };
+    } catch (err) {
+      // The user can still open public apps; private ones will say they are not authorized.
+      log.warn("NExS token exchange failed", { error: err instanceof Error ? err.message : String(err) });
+      return null;
+    }
+  }
+}
+
+/**
+ * Verifies OAuth access tokens with the authorization server's introspection
+ * endpoint, authenticating as OAUTH_CLIENT_ID / OAUTH_CLIENT_SECRET.  With
+ * `exchange`, each new token is also traded for the user's NExS token.
+ */
+class IntrospectionVerifier implements OAuthTokenVerifier {
+  private readonly cache = new Map<string, { info: AuthInfo; until: number }>();
+
+  constructor(
+    private readonly endpoint: string,
+    private readonly resource: URL,
+    private readonly credentials: ClientCredentials | null,
+    private readonly exchange: NexsTokenExchange | null,
+  ) {}
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const cached = this.cache.get(token);
+    this.cache.delete(token);
+    if (cached && cached.until > Date.now()) {
+      // Re-inserted so the map stays in least-recently-used order.
+      this.cache.set(token, cached);
+      return cached.info;
+    }
+
+    let body: IntrospectionResponse;
+    try {
+      const resp = await fetch(this.endpoint, {
+        method: "POST",
+        headers: formHeaders(this.credentials),
+        body: new URLSearchParams({ token, token_type_hint: "access_token" }),
+        signal: AbortSignal.timeout(INTROSPECTION_TIMEOUT_MS),
+      });
+      if (!resp.ok) throw new Error(`introspection returned ${resp.status}`);
+      body = (await resp.json()) as IntrospectionResponse;
+    } catch (err) {
+      log.error("Token introspection failed", { error: err instanceof Error ? err.message : String(err) });
+      throw new ServerError("Could not verify the access token");
+    }
+
+    if (!body.active) throw new InvalidTokenError("Token is not active");
+    // RFC 8707: a token minted for another resource must not work here.
+    const audiences = body.aud === undefined ? [] : [body.aud].flat();
+    if (audiences.length > 0 && !audiences.some((aud) => sameResource(aud, this.resource))) {
+      throw new InvalidTokenError("Token was not issued for this server");
+    }
+    const nexs = this.exchange ? await this.exchange.exchange(token) : null;
+    const info: AuthInfo = {
+      token,
+      clientId: body.sub ?? body.client_id ?? "unknown",
+      scopes: body.scope ? body.scope.split(" ") : [],
+      expiresAt: body.exp,
+      resource: this.resource,
+      // Read by resolveNexsToken in server.ts.
+      extra: nexs ? { nexsToken: nexs.token } : undefined,
+    };
+    // Reused no longer than either token is valid.
+    const expiresMs = Math.min(
+      body.exp !== undefined ? body.exp * 1000 : Infinity,
+      nexs?.expiresAt !== undefined ? nexs.expiresAt * 1000 : Infinity,
+    );
+    this.remember(token, { info, until: Math.min(expiresMs, Date.now() + INTROSPECTION_CACHE_MS) });
+    return info;
+  }
+
+  /** Caches a result, dropping expired entries and then the least recently used. */
+  private remember(token: string, entry: { info: AuthInfo; until: number }): void {
+    const now = Date.now();
+    for (const [key, { until }] of this.cache) {
+      if (until <= now) this.cache.delete(key);
+    }
+    for (const key of this.cache.keys()) {
+      if (this.cache.size < INTROSPECTION_CACHE_MAX) break;
+      this.cache.delete(key);
+    }
+    this.cache.set(token, entry);
+  }
+}
+
+function sameResource(audience: string, resource: URL): boolean {
+  try {
+    const aud = new URL(audience);
+    return aud.origin === resource.origin && aud.pathname.replace(/\/$/, "") === resource.pathname.replace(/\/$/, "");
+  } catch {
+    return false;
+  }
+}
+
+/** Tries each verifier in turn; the first to accept the token wins. */
+class ChainedVerifier implements OAuthTokenVerifier {
+  constructor(private readonly verifiers: OAuthTokenVerifier[]) {}
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    let lastError: unknown = new InvalidTokenError("Invalid access token");
+    for (const verifier of this.verifiers) {
+      try {
+        return await verifier.verifyAccessToken(token);
+      } catch (err) {
+        lastError = err;
+      }
+    }
+    throw lastError;
+  }
+}
+
+function listEnv(name: string): string[] {
+  return (process.env[name] ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Builds the /mcp guard from the environment, or returns null when neither
+ * MCP_API_KEYS nor OAUTH_ISSUER is set.  `mcpPath` is where the MCP endpoint
+ * is mounted, for the resource identifier.
+ *
+ *   MCP_API_KEYS             comma-separated API keys
+ *   OAUTH_ISSUER             authorization server issuer URL
+ *   OAUTH_INTROSPECTION_URL  defaults to the issuer's introspection_endpoint
+ *   OAUTH_CLIENT_ID / OAUTH_CLIENT_SECRET  credentials for introspection
+ *   OAUTH_SCOPES             comma-separated scopes every token must carry
+ *   NEXS_TOKEN_EXCHANGE_AUDIENCE  audience to exchange access tokens for
+ *                            NExS tokens at the issuer's token endpoint
+ *   PUBLIC_URL               this server's public origin (required for OAuth)
+ */
+export async function configureHttpAuth(mcpPath: string): Promise<HttpAuth | null> {
+  const apiKeys = listEnv("MCP_API_KEYS");
+  const issuer = process.env.OAUTH_ISSUER;
+  if (apiKeys.length === 0 && !issuer) return null;
+
+  const requiredScopes = listEnv("OAUTH_SCOPES");
+  const verifiers: OAuthTokenVerifier[] = [];
+  if (apiKeys.length > 0) verifiers.push(new ApiKeyVerifier(apiKeys, requiredScopes));
+
+  let metadataRouter: Router | null = null;
+  let resourceMetadataUrl: string | undefined;
+  if (issuer) {
+    if (!process.env.PUBLIC_URL) {
+      throw new Error("OAUTH_ISSUER needs PUBLIC_URL, the public origin OAuth clients reach this server at");
+    }
+    const resource = new URL(mcpPath, process.env.PUBLIC_URL);
+    // OpenID discovery documents carry the same fields we use.
+    const metadata = (await discoverAuthorizationServerMetadata(issuer)) as OAuthMetadata | undefined;
+    if (!metadata) throw new Error(`No OAuth authorization server metadata found for ${issuer}`);
+    const introspection = process.env.OAUTH_INTROSPECTION_URL ?? metadata.introspection_endpoint;
+    if (!introspection) {
+      throw new Error(`${issuer} advertises no introspection_endpoint; set OAUTH_INTROSPECTION_URL`);
+    }
+    const clientId = process.env.OAUTH_CLIENT_ID;
+    const clientSecret = process.env.OAUTH_CLIENT_SECRET;
+    const credentials = clientId && clientSecret ? { clientId, clientSecret } : null;
+    let exchange: NexsTokenExchange | null = null;
+    const audience = process.env.NEXS_TOKEN_EXCHANGE_AUDIENCE;
+    if (audience) {
+      if (!metadata.token_endpoint) throw new Error(`${issuer} advertises no token_endpoint for token exchange`);
+      exchange = new NexsTokenExchange(metadata.token_endpoint, audience, credentials);
+    }
+    verifiers.push(new IntrospectionVerifier(introspection, resource, credentials, exchange));
+    metadataRouter = mcpAuthMetadataRouter({
+      oauthMetadata: metadata,
+      resourceServerUrl: resource,
+      scopesSupported: requiredScopes.length > 0 ? requiredScopes : undefined,
+      resourceName: "NExS Spreadsheet Viewer",
+    });
+    resourceMetadataUrl = getOAuthProtectedResourceMetadataUrl(resource);
+  }
+
+  return {
+    middleware: requireBearerAuth({
+      verifier: verifiers.length === 1 ? verifiers[0] : new ChainedVerifier(verifiers),
+      requiredScopes,
+      resourceMetadataUrl,
+    }),
+    metadataRouter,
+  };
+}
+
+/**
+ * Origins allowed to call /mcp from a browser, from CORS_ORIGINS
+ * (comma-separated), or true (any origin) when unset.
+ */
+export function corsOrigins(): string[] | true {
+  const origins = listEnv("CORS_ORIGINS").map((o) => new URL(o).origin);
+  return origins.length > 0 ? origins : true;
+}
@@ -0,0 +1,23 @@
+/**
+ * A1-style cell address helpers shared by the tools (server.ts) and the
+ * exporters (export.ts).
+ */
+
+/** Splits "B17" (or "$B$17") into 1-based column and row numbers. */
+export function parseAddr(addr: string): { col: number; row: number } | null {
+  const m = addr.trim().match(/^\$?([A-Z]{1,3})\$?(\d+)$/i);
+  if (!m) return null;
+  let col = 0;
+  for (const ch of m[1].toUpperCase()) col = col * 26 + (ch.charCodeAt(0) - 64);
+  const row = parseInt(m[2], 10);
+  return row > 0 ? { col, row } : null;
+}
+
+/** 1 → "A", 27 → "AA". */
+export function columnLetters(col: number): string {
+  let letters = "";
+  for (let n = col; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
@@ -0,0 +1,321 @@
+/**
+ * Serialises spreadsheet cell data to CSV, JSON and XLSX.
+ *
+ * Everything here is pure and dependency-free: the XLSX writer builds the
+ * handful of SpreadsheetML parts a workbook needs and packs them into an
+ * uncompressed ZIP, so exports never leave the process.
+ */
+import { parseAddr } from "./cell-addr.js";
+
+/** A cell as the exporters see it; mirrors the NExS cell info fields. */
+export interface ExportCell {
+  addr: string;
+  data: number | string;
+  datatype: "numeric" | "string" | "error" | "n/a";
+  text: string;
+  formula?: string;
+}
+
+export interface ExportSheet {
+  name: string;
+  cells: ExportCell[];
+}
+
+export interface ExportOptions {
+  /** Write formulas (where known) instead of their computed values. */
+  includeFormulas: boolean;
+  /** CSV only: write formatted text instead of raw values. */
+  formattedText: boolean;
+}
+
+/** Upper bound on grid cells (rows × columns) laid out per sheet. */
+export const MAX_EXPORT_GRID_CELLS = 250_000;
+
+/**
+ * Places a sheet's cells on a grid anchored at A1, so every value keeps its
+ * spreadsheet position.  Throws when the grid would exceed
+ * MAX_EXPORT_GRID_CELLS.
+ */
+function layoutSheet(sheet: ExportSheet): { rows: number; cols: number; grid: Map<string, ExportCell> } {
+  let rows = 0;
+  let cols = 0;
+  const grid = new Map<string, ExportCell>();
+  for (const cell of sheet.cells) {
+    const pos = parseAddr(cell.addr);
+    if (!pos) continue;
+    rows = Math.max(rows, pos.row);
+    cols = Math.max(cols, pos.col);
+    grid.set(`${pos.row}:${pos.col}`, cell);
+  }
+  if (rows * cols > MAX_EXPORT_GRID_CELLS) {
+    throw new Error(
+      `Sheet '${sheet.name}' spans ${rows} rows × ${cols} columns, more than the ` +
+      `${MAX_EXPORT_GRID_CELLS}-cell export limit.`
+    );
+  }
+  return { rows, cols, grid };
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** One sheet as RFC 4180 CSV, laid out by address from A1. */
+export function sheetToCsv(sheet: ExportSheet, options: ExportOptions): string {
+  const { rows, cols, grid } = layoutSheet(sheet);
+  const lines: string[] = [];
+  for (let r = 1; r <= rows; r++) {
+    const fields: string[] = [];
+    for (let c = 1; c <= cols; c++) {
+      const cell = grid.get(`${r}:${c}`);
+      if (!cell) {
+        fields.push("");
+      } else if (options.includeFormulas && cell.formula) {
+        fields.push(csvField(cell.formula.startsWith("=") ? cell.formula : `=${cell.formula}`));
+      } else {
+        fields.push(csvField(options.formattedText ? cell.text : String(cell.data)));
+      }
+    }
+    lines.push(fields.join(","));
+  }
+  return lines.join("\r\n");
+}
+
+// ---------------------------------------------------------------------------
+// JSON
+// ---------------------------------------------------------------------------
+
+/** Structured JSON keyed by sheet and address, plus caller-supplied metadata. */
+export function sheetsToJson(
+  sheets: ExportSheet[],
+  options: ExportOptions,
+  meta: Record<string, unknown>,
+): string {
+  return JSON.stringify(
+    {
+      ...meta,
+      sheets: sheets.map((sheet) => ({
+        name: sheet.name,
+        cells: Object.fromEntries(
+          sheet.cells.map((c) => [
+            c.addr.toUpperCase(),
+            {
+              value: c.data,
+              text: c.text,
+              datatype: c.datatype,
+              ...(options.includeFormulas && c.formula ? { formula: c.formula } : {}),
+            },
+          ])
+        ),
+      })),
+    },
+    null,
+    2
+  );
+}
+
+// ---------------------------------------------------------------------------
+// XLSX
+// ---------------------------------------------------------------------------
+
+function xmlEscape(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // XML 1.0 forbids most control characters outright.
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+}
+
+/** Excel sheet names: max 31 chars, none of []:*?/\, unique per workbook. */
+function xlsxSheetNames(sheets: ExportSheet[]): string[] {
+  const used = new Set<string>();
+  return sheets.map((sheet, i) => {
+    const base = sheet.name.replace(/[[\]:*?/\\]/g, "_").slice(0, 31) || `Sheet${i + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      name = `${base.slice(0, 31 - String(n).length - 1)}~${n}`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+function worksheetXml(sheet: ExportSheet, options: ExportOptions): string {
+  const { rows, grid } = layoutSheet(sheet);
+  const byRow = new Map<number, Array<{ col: number; cell: ExportCell }>>();
+  for (const [key, cell] of grid) {
+    const [r, c] = key.split(":").map(Number);
+    let row = byRow.get(r);
+    if (!row) byRow.set(r, (row = []));
+    row.push({ col: c, cell });
+  }
+
+  const rowXml: string[] = [];
+  for (let r = 1; r <= rows; r++) {
+    const row = byRow.get(r);
+    if (!row) continue;
+    row.sort((a, b) => a.col - b.col);
+    const cellsXml = row.map(({ cell }) => {
+      const ref = cell.addr.replace(/\$/g, "").toUpperCase();
+      const formula =
+        options.includeFormulas && cell.formula
+          ? `<f>${xmlEscape(cell.formula.replace(/^=/, ""))}</f>`
+          : "";
+      if (cell.datatype === "numeric" && typeof cell.data === "number" && Number.isFinite(cell.data)) {
+        return `<c r="${ref}">${formula}<v>${cell.data}</v></c>`;
+      }
+      if (formula) {
+        return `<c r="${ref}" t="str">${formula}<v>${xmlEscape(cell.text)}</v></c>`;
+      }
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${xmlEscape(cell.text)}</t></is></c>`;
+    });
+    rowXml.push(`<row r="${r}">${cellsXml.join("")}</row>`);
+  }
+
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+    `<sheetData>${rowXml.join("")}</sheetData></worksheet>`
+  );
+}
+
+/** A minimal single-file XLSX workbook with one worksheet per sheet. */
+export function sheetsToXlsx(sheets: ExportSheet[], options: ExportOptions): Buffer {
+  const names = xlsxSheetNames(sheets);
+  const files: Array<{ name: string; data: string }> = [
+    {
+      name: "[Content_Types].xml",
+      data:
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+        `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+        `<Default Extension="xml" ContentType="application/xml"/>` +
+        `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+        sheets
+          .map(
+            (_, i) =>
+              `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ` +
+              `ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+          )
+          .join("") +
+        `</Types>`,
+    },
+    {
+      name: "_rels/.rels",
+      data:
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+        `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>` +
+        `</Relationships>`,
+    },
+    {
+      name: "xl/workbook.xml",
+      data:
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+        `<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ` +
+        `xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>` +
+        names
+          .map((name, i) => `<sheet name="${xmlEscape(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`)
+          .join("") +
+        `</sheets></workbook>`,
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      data:
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+        `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        sheets
+          .map(
+            (_, i) =>
+              `<Relationship Id="rId${i + 1}" ` +
+              `Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" ` +
+              `Target="worksheets/sheet${i + 1}.xml"/>`
+          )
+          .join("") +
+        `</Relationships>`,
+    },
+    ...sheets.map((sheet, i) => ({
+      name: `xl/worksheets/sheet${i + 1}.xml`,
+      data: worksheetXml(sheet, options),
+    })),
+  ];
+  return zipStore(files.map((f) => ({ name: f.name, data: Buffer.from(f.data, "utf-8") })));
+}
+
+// ---------------------------------------------------------------------------
+// ZIP (store only)
+// ---------------------------------------------------------------------------
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Packs files into a ZIP archive without compression (method 0). */
+function zipStore(files: Array<{ name: string; data: Buffer }>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, "utf-8");
+    const crc = crc32(file.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0); // local file header signature
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // flags: UTF-8 names
+    local.writeUInt16LE(0, 8); // method: store
+    local.writeUInt32LE(0, 10); // mod time + date
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(file.data.length, 18);
+    local.writeUInt32LE(file.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28); // extra length
+    locals.push(local, name, file.data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0); // central directory signature
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6); // version needed
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(0, 10);
+    central.writeUInt32LE(0, 12);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(file.data.length, 20);
+    central.writeUInt32LE(file.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    // extra, comment, disk start, internal + external attributes: all zero
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + file.data.length;
+  }
+
+  const centralSize = centrals.reduce((n, b) => n + b.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0); // end of central directory signature
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, ...centrals, end]);
+}
@@ -0,0 +1,583 @@
+/**
+ * In-process stand-in for the NExS platform API, for running the server
+ * offline (main.ts --fake-nexs) or against scripted workbooks.
+ *
+ * Implements POST /api/app/{uuid}/init and /interact with the same payload
+ * shapes as the real platform.  Workbooks are plain cell maps; strings that
+ * start with "=" are formulas supporting arithmetic, comparisons, "&",
+ * cross-sheet references, ranges and a few functions (SUM, AVERAGE, MIN,
+ * MAX, ROUND, ABS, IF).  Every write bumps the session revision, and
+ * interact returns only cells whose value changed after the caller's
+ * revision; writes against an older revision get 409, and sessions idle
+ * past the configured TTL get 404.  Apps with `tokens` are private and
+ * answer 401/403 without a matching bearer token.  There is no embeddable
+ * iframe: the View will not render.
+ */
+import { randomUUID } from "node:crypto";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+
+/** A workbook served by the fake.  Cell values starting with "=" are formulas. */
+export interface FakeNexsApp {
+  name: string;
+  sheets: Record<string, Record<string, number | string>>;
+  names?: Array<{ name: string; sheetName: string; range: string }>;
+  /**
+   * Makes the app private: init and interact then need one of these as a
+   * bearer token (401 without one, 403 with any other).
+   */
+  tokens?: string[];
+}
+
+export interface FakeNexsServer {
+  /** Origin to use as NEXS_BASE_URL, e.g. "http://127.0.0.1:41234". */
+  baseUrl: string;
+  close(): Promise<void>;
+}
+
+export interface FakeNexsOptions {
+  /** Port to listen on; 0 (default) picks a free one. */
+  port?: number;
+  /** Sessions idle longer than this expire.  Default: never. */
+  sessionTtlMs?: number;
+}
+
+/** UUID of DEMO_APP, served by default. */
+export const DEMO_APP_UUID = "00000000-0000-4000-8000-00000000d3a0";
+
+/** A two-sheet loan calculator with inputs, formulas and defined names. */
+export const DEMO_APP: FakeNexsApp = {
+  name: "Loan Calculator",
+  sheets: {
+    Loan: {
+      A1: "Principal",
+      B1: 250000,
+      A2: "Annual rate",
+      B2: 0.05,
+      A3: "Years",
+      B3: 30,
+      A4: "Monthly payment",
+      B4: "=ROUND(B1*(B2/12)/(1-(1+B2/12)^(-B3*12)),2)",
+      A5: "Total paid",
+      B5: "=B4*B3*12",
+      A6: "Total interest",
+      B6: "=B5-B1",
+    },
+    Summary: {
+      A1: "Interest share",
+      B1: "=IF(Loan!B5=0,0,Loan!B6/Loan!B5)",
+      A2: "Payments",
+      B2: "=SUM(Loan!B3)*12",
+    },
+  },
+  names: [
+    { name: "Principal", sheetName: "Loan", range: "B1" },
+    { name: "MonthlyPayment", sheetName: "Loan", range: "B4" },
+  ],
+};
+
+// ---------------------------------------------------------------------------
+// Formula evaluation
+// ---------------------------------------------------------------------------
+
+type Scalar = number | string | boolean;
+type Value = Scalar | Scalar[];
+
+/** An Excel error value ("#DIV/0!", "#REF!", ...), thrown through evaluation. */
+class FormulaError extends Error {
+  constructor(readonly code: string) {
+    super(code);
+  }
+}
+
+interface Token {
+  kind: "num" | "str" | "ref" | "fn" | "op";
+  text: string;
+}
+
+const TOKEN_PATTERNS: Array<[Token["kind"], RegExp]> = [
+  ["num", /^(\d+(\.\d+)?|\.\d+)([eE][+-]?\d+)?/],
+  ["str", /^"(?:[^"]|"")*"/],
+  ["fn", /^[A-Za-z][A-Za-z0-9.]*(?=\s*\()/],
+  [
+    "ref",
+    /^(?:(?:'[^']+'|[A-Za-z_][\w.]*)!)?\$?[A-Za-z]{1,3}\$?\d+(?::\$?[A-Za-z]{1,3}\$?\d+)?/,
+  ],
+  ["op", /^(<=|>=|<>|[-+*/^&=<>(),])/],
+];
+
+function tokenize(src: string): Token[] {
+  const tokens: Token[] = [];
+  let rest = src.trim();
+  while (rest) {
+    const match = TOKEN_PATTERNS.map(([kind, re]) => [kind, re.exec(rest)] as const).find(
+      ([, m]) => m,
+    );
+    if (!match) throw new FormulaError("#NAME?");
+    const [kind, m] = match;
+    tokens.push({ kind, text: m![0] });
+    rest = rest.slice(m![0].length).trimStart();
+  }
+  return tokens;
+}
+
+function columnIndex(letters: string): number {
+  let n = 0;
+  for (const ch of letters.toUpperCase()) n = n * 26 + (ch.charCodeAt(0) - 64);
+  return n;
+}
+
+function columnName(index: number): string {
+  let s = "";
+  for (let n = index; n > 0; n = Math.floor((n - 1) / 26)) {
+    s = String.fromCharCode(65 + ((n - 1) % 26)) + s;
+  }
+  return s;
+}
+
+function splitAddr(addr: string): { col: number; row: number } {
+  const m = addr.replace(/\$/g, "").match(/^([A-Za-z]{1,3})(\d+)$/)!;
+  return { col: columnIndex(m[1]), row: Number(m[2]) };
+}
+
+function expandRange(from: string, to: string): string[] {
+  const a = splitAddr(from);
+  const b = splitAddr(to);
+  const addrs: string[] = [];
+  for (let row = Math.min(a.row, b.row); row <= Math.max(a.row, b.row); row++) {
+    for (let col = Math.min(a.col, b.col); col <= Math.max(a.col, b.col); col++) {
+      addrs.push(`${columnName(col)}${row}`);
+    }
+  }
+  return addrs;
+}
+
+function toNumber(v: Value): number {
+  if (Array.isArray(v)) throw new FormulaError("#VALUE!");
+  if (typeof v === "number") return v;
+  if (typeof v === "boolean") return v ? 1 : 0;
+  if (v.trim() === "") return 0;
+  const n = Number(v);
+  if (Number.isNaN(n)) throw new FormulaError("#VALUE!");
+  return n;
+}
+
+function toScalar(v: Value): Scalar {
+  if (Array.isArray(v)) throw new FormulaError("#VALUE!");
+  return v;
+}
+
+/** Numbers from the arguments; strings and blanks inside ranges are skipped. */
+function numericArgs(args: Value[]): number[] {
+  return args.flatMap((a) =>
+    Array.isArray(a) ? a.filter((v): v is number => typeof v === "number") : [toNumber(a)],
+  );
+}
+
+const FUNCTIONS: Record<string, (args: Array<() => Value>) => Value> = {
+  SUM: (args) => numericArgs(args.map((a) => a())).reduce((s, n) => s + n, 0),
+  AVERAGE: (args) => {
+    const nums = numericArgs(args.map((a) => a()));
+    if (nums.length === 0) throw new FormulaError("#DIV/0!");
+    return nums.reduce((s, n) => s + n, 0) / nums.length;
+  },
+  MIN: (args) => {
+    const nums = numericArgs(args.map((a) => a()));
+    return nums.length ? Math.min(...nums) : 0;
+  },
+  MAX: (args) => {
+    const nums = numericArgs(args.map((a) => a()));
+    return nums.length ? Math.max(...nums) : 0;
+  },
+  ROUND: ([x, digits]) => {
+    const factor = 10 ** (digits ? toNumber(digits()) : 0);
+    return Math.round(toNumber(x()) * factor) / factor;
+  },
+  ABS: ([x]) => Math.abs(toNumber(x())),
+  IF: ([cond, then, otherwise]) => {
+    const c = toScalar(cond());
+    const truthy = typeof c === "string" ? c !== "" : toNumber(c) !== 0;
+    if (truthy) return then ? then() : true;
+    return otherwise ? otherwise() : false;
+  },
+};
+
+function compare(op: string, a: Scalar, b: Scalar): boolean {
+  const bothNumeric = typeof a !== "string" && typeof b !== "string";
+  const x = bothNumeric ? toNumber(a) : String(a).toUpperCase();
+  const y = bothNumeric ? toNumber(b) : String(b).toUpperCase();
+  switch (op) {
+    case "=":
+      return x === y;
+    case "<>":
+      return x !== y;
+    case "<":
+      return x < y;
+    case ">":
+      return x > y;
+    case "<=":
+      return x <= y;
+    default:
+      return x >= y;
+  }
+}
+
+/**
+ * Compiles a formula (without its leading "=") into a thunk.  `lookup`
+ * resolves a cell on a sheet to its value and throws FormulaError for error
+ * cells; unqualified references resolve on `sheet`.
+ */
+function compileFormula(
+  src: string,
+  sheet: string,
+  lookup: (sheet: string, addr: string) => Scalar,
+): () => Value {
+  const tokens = tokenize(src);
+  let pos = 0;
+  const peek = () => tokens[pos]?.text;
+  const next = () => {
+    const token = tokens[pos++];
+    if (!token) throw new FormulaError("#NAME?");
+    return token;
+  };
+  const expect = (text: string) => {
+    if (next().text !== text) throw new FormulaError("#NAME?");
+  };
+
+  const binary = (
+    operand: () => () => Value,
+    ops: string[],
+    apply: (op: string, a: Value, b: Value) => Value,
+  ) => (): (() => Value) => {
+    let left = operand();
+    while (ops.includes(peek() ?? "")) {
+      const op = next().text;
+      const l = left;
+      const r = operand();
+      left = () => apply(op, l(), r());
+    }
+    return left;
+  };
+
+  const primary = (): (() => Value) => {
+    const token = next();
+    if (token.kind === "num") {
+      const n = Number(token.text);
+      return () => n;
+    }
+    if (token.kind === "str") {
+      const s = token.text.slice(1, -1).replace(/""/g, '"');
+      return () => s;
+    }
+    if (token.kind === "ref") {
+      const bang = token.text.lastIndexOf("!");
+      const refSheet = bang === -1 ? sheet : token.text.slice(0, bang).replace(/^'(.*)'$/, "$1");
+      const [from, to] = token.text.slice(bang + 1).split(":");
+      if (to) return () => expandRange(from, to).map((addr) => lookup(refSheet, addr));
+      const addr = from.replace(/\$/g, "").toUpperCase();
+      return () => lookup(refSheet, addr);
+    }
+    if (token.kind === "fn") {
+      const fn = FUNCTIONS[token.text.toUpperCase()];
+      if (!fn) throw new FormulaError("#NAME?");
+      expect("(");
+      const args: Array<() => Value> = [];
+      if (peek() !== ")") {
+        args.push(comparison());
+        while (peek() === ",") {
+          next();
+          args.push(comparison());
+        }
+      }
+      expect(")");
+      return () => fn(args);
+    }
+    if (token.text === "(") {
+      const inner = comparison();
+      expect(")");
+      return inner;
+    }
+    throw new FormulaError("#NAME?");
+  };
+
+  const unary = (): (() => Value) => {
+    if (peek() === "-" || peek() === "+") {
+      const negate = next().text === "-";
+      const operand = unary();
+      return () => (negate ? -toNumber(operand()) : toNumber(operand()));
+    }
+    return primary();
+  };
+
+  const power = binary(unary, ["^"], (_, a, b) => toNumber(a) ** toNumber(b));
+  const multiplicative = binary(power, ["*", "/"], (op, a, b) => {
+    const x = toNumber(a);
+    const y = toNumber(b);
+    if (op === "*") return x * y;
+    if (y === 0) throw new FormulaError("#DIV/0!");
+    return x / y;
+  });
+  const additive = binary(multiplicative, ["+", "-"], (op, a, b) =>
+    op === "+" ? toNumber(a) + toNumber(b) : toNumber(a) - toNumber(b),
+  );
+  const concat = binary(additive, ["&"], (_, a, b) => `${toScalar(a)}${toScalar(b)}`);
+  const comparison = binary(concat, ["=", "<>", "<", ">", "<=", ">="], (op, a, b) =>
+    compare(op, toScalar(a), toScalar(b)),
+  );
+
+  const compiled = comparison();
+  if (pos !== tokens.length) throw new FormulaError("#NAME?");
+  return compiled;
+}
+
+// ---------------------------------------------------------------------------
+// Sessions
+// ---------------------------------------------------------------------------
+
+type CellInfo = {
+  addr: string;
+  data: number | string;
+  datatype: "numeric" | "string" | "error";
+  text: string;
+  formula?: string;
+};
+
+interface FakeSession {
+  appUuid: string;
+  revision: number;
+  /** Values written through interact, keyed by "Sheet!ADDR". */
+  inputs: Map<string, number | string>;
+  /** Current computed cells, keyed by "Sheet!ADDR". */
+  cells: Map<string, { sheetName: string; ci: CellInfo }>;
+  /** Revision at which each cell's value last changed. */
+  changedAt: Map<string, number>;
+  lastUsed: number;
+}
+
+function formatNumber(n: number): string {
+  return String(Number(n.toPrecision(12)));
+}
+
+function cellInfo(addr: string, value: Scalar | FormulaError, formula?: string): CellInfo {
+  const base = formula ? { addr, formula } : { addr };
+  if (value instanceof FormulaError) {
+    return { ...base, data: value.code, datatype: "error", text: value.code };
+  }
+  if (typeof value === "boolean") {
+    return { ...base, data: value ? 1 : 0, datatype: "numeric", text: value ? "TRUE" : "FALSE" };
+  }
+  if (typeof value === "number") {
+    return { ...base, data: value, datatype: "numeric", text: formatNumber(value) };
+  }
+  return { ...base, data: value, datatype: "string", text: value };
+}
+
+/** Evaluates every cell of `app` with `inputs` applied. */
+function computeCells(app: FakeNexsApp, inputs: Map<string, number | string>): FakeSession["cells"] {
+  const results = new Map<string, Scalar | FormulaError>();
+  const evaluating = new Set<string>();
+
+  const rawValue = (sheet: string, addr: string) =>
+    inputs.get(`${sheet}!${addr}`) ?? app.sheets[sheet][addr];
+
+  const valueOf = (sheet: string, addr: string): Scalar | FormulaError => {
+    const key = `${sheet}!${addr}`;
+    const known = results.get(key);
+    if (known !== undefined) return known;
+    if (!app.sheets[sheet]) return new FormulaError("#REF!");
+    const raw = rawValue(sheet, addr);
+    if (typeof raw !== "string" || !raw.startsWith("=")) return raw ?? "";
+    // A cell reached again while it is being evaluated is a circular reference.
+    if (evaluating.has(key)) return new FormulaError("#REF!");
+    evaluating.add(key);
+    let value: Scalar | FormulaError;
+    try {
+      value = toScalar(
+        compileFormula(raw.slice(1), sheet, (s, a) => {
+          const v = valueOf(s, a);
+          if (v instanceof FormulaError) throw v;
+          return v;
+        })(),
+      );
+      if (typeof value === "number" && !Number.isFinite(value)) value = new FormulaError("#NUM!");
+    } catch (err) {
+      if (!(err instanceof FormulaError)) throw err;
+      value = err;
+    } finally {
+      evaluating.delete(key);
+    }
+    results.set(key, value);
+    return value;
+  };
+
+  const cells: FakeSession["cells"] = new Map();
+  for (const [sheetName, sheet] of Object.entries(app.sheets)) {
+    const addrs = new Set(Object.keys(sheet).map((a) => a.toUpperCase()));
+    for (const key of inputs.keys()) {
+      if (key.startsWith(`${sheetName}!`)) addrs.add(key.slice(sheetName.length + 1));
+    }
+    for (const addr of addrs) {
+      const raw = rawValue(sheetName, addr);
+      const formula = typeof raw === "string" && raw.startsWith("=") ? raw : undefined;
+      cells.set(`${sheetName}!${addr}`, { sheetName, ci: cellInfo(addr, valueOf(sheetName, addr), formula) });
+    }
+  }
+  return cells;
+}
+
+/** One view per sheet spanning its used range. */
+function viewsFor(app: FakeNexsApp) {
+  return Object.entries(app.sheets).map(([sheetName, sheet]) => {
+    const addrs = Object.keys(sheet).map(splitAddr);
+    const maxCol = Math.max(1, ...addrs.map((a) => a.col));
+    const maxRow = Math.max(1, ...addrs.map((a) => a.row));
+    return { name: sheetName, sheetName, range: `A1:${columnName(maxCol)}${maxRow}`, isInvisible: false };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// HTTP server
+// ---------------------------------------------------------------------------
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly extra: Record<string, unknown> = {},
+  ) {
+    super(message);
+  }
+}
+
+async function readJson(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const body = Buffer.concat(chunks).toString("utf-8");
+  try {
+    return body ? (JSON.parse(body) as Record<string, unknown>) : {};
+  } catch {
+    throw new HttpError(400, "Invalid JSON body");
+  }
+}
+
+/**
+ * Starts a fake NExS platform on 127.0.0.1.  `apps` maps app UUIDs (lower
+ * case) to workbooks.
+ */
+export async function startFakeNexs(
+  apps: Record<string, FakeNexsApp> = { [DEMO_APP_UUID]: DEMO_APP },
+  { port = 0, sessionTtlMs = Infinity }: FakeNexsOptions = {},
+): Promise<FakeNexsServer> {
+  const sessions = new Map<string, FakeSession>();
+
+  const init = (appUuid: string, app: FakeNexsApp) => {
+    const session: FakeSession = {
+      appUuid,
+      revision: 1,
+      inputs: new Map(),
+      cells: computeCells(app, new Map()),
+      changedAt: new Map(),
+      lastUsed: Date.now(),
+    };
+    const sessionId = randomUUID();
+    sessions.set(sessionId, session);
+    return {
+      session: sessionId,
+      revision: session.revision,
+      views: viewsFor(app),
+      names: app.names ?? [],
+      values: [...session.cells.values()].map(({ sheetName, ci }) => [sheetName, ci]),
+    };
+  };
+
+  const interact = (appUuid: string, app: FakeNexsApp, body: Record<string, unknown>) => {
+    const sessionId = String(body.session);
+    const session = sessions.get(sessionId);
+    if (session && Date.now() - session.lastUsed > sessionTtlMs) sessions.delete(sessionId);
+    if (!session || !sessions.has(sessionId) || session.appUuid !== appUuid) {
+      throw new HttpError(404, "Session not found");
+    }
+    session.lastUsed = Date.now();
+    const since = Number(body.revision);
+    if (!Number.isInteger(since)) throw new HttpError(400, "revision must be an integer");
+    const inputs = Array.isArray(body.inputs) ? (body.inputs as unknown[]) : [];
+    // Reads may ask for any past revision; writes must name the latest one.
+    if (since > session.revision || (inputs.length > 0 && since !== session.revision)) {
+      throw new HttpError(409, "Revision conflict", { revision: session.revision });
+    }
+
+    const written = new Map(session.inputs);
+    for (const input of inputs) {
+      if (!Array.isArray(input) || input.length !== 3) {
+        throw new HttpError(400, "Each input must be [sheetname, celladdr, value]");
+      }
+      const [sheetName, rawAddr, value] = input as [unknown, unknown, unknown];
+      const sheet = typeof sheetName === "string" ? app.sheets[sheetName] : undefined;
+      if (!sheet) throw new HttpError(400, `Unknown sheet: ${String(sheetName)}`);
+      const addr = String(rawAddr).replace(/\$/g, "").toUpperCase();
+      if (!/^[A-Z]{1,3}\d+$/.test(addr)) throw new HttpError(400, `Invalid cell address: ${String(rawAddr)}`);
+      const original = sheet[addr];
+      if (typeof original === "string" && original.startsWith("=")) {
+        throw new HttpError(400, `${sheetName}!${addr} is a formula cell and cannot be written`);
+      }
+      if (typeof value !== "string" && typeof value !== "number") {
+        throw new HttpError(400, `Invalid value for ${sheetName}!${addr}`);
+      }
+      written.set(`${sheetName}!${addr}`, value);
+    }
+
+    if (inputs.length > 0) {
+      const cells = computeCells(app, written);
+      session.revision++;
+      for (const [key, cell] of cells) {
+        const before = session.cells.get(key)?.ci;
+        if (!before || before.data !== cell.ci.data || before.text !== cell.ci.text) {
+          session.changedAt.set(key, session.revision);
+        }
+      }
+      session.inputs = written;
+      session.cells = cells;
+    }
+
+    // Deltas carry values only; init already delivered the formulas.
+    const values = [...session.cells.entries()]
+      .filter(([key]) => (session.changedAt.get(key) ?? 0) > since)
+      .map(([, { sheetName, ci }]) => {
+        const { formula: _formula, ...rest } = ci;
+        return [sheetName, rest];
+      });
+    return { revision: session.revision, values };
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+    try {
+      const m = req.url?.match(/^\/api\/app\/([0-9a-fA-F-]{36})\/(init|interact)\/?$/);
+      if (!m) throw new HttpError(404, "Not found");
+      if (req.method !== "POST") throw new HttpError(405, "Method not allowed");
+      const appUuid = m[1].toLowerCase();
+      const app = apps[appUuid];
+      if (!app) throw new HttpError(404, `App not found: ${appUuid}`);
+      if (app.tokens) {
+        const token = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+        if (!token) throw new HttpError(401, "Authentication required");
+        if (!app.tokens.includes(token)) throw new HttpError(403, "Not authorized for this app");
+      }
+      const body = await readJson(req);
+      send(200, m[2] === "init" ? init(appUuid, app) : interact(appUuid, app, body));
+    } catch (err) {
+      if (err instanceof HttpError) send(err.status, { error: err.message, ...err.extra });
+      else send(500, { error: String(err) });
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, "127.0.0.1", resolve));
+  const { port: boundPort } = server.address() as AddressInfo;
+  return {
+    baseUrl: `http://127.0.0.1:${boundPort}`,
+    close: () => new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * Leveled, structured logging for the server.
+ *
+ * Entries go to stderr (stdout belongs to the stdio transport), either as one
+ * JSON object per line or as a readable line, chosen with LOG_FORMAT.
+ * LOG_LEVEL sets the threshold.
+ *
+ * A tool call runs inside a log context (withLogContext) carrying a request
+ * ID, so every entry it causes — NExS API attempts, retries, resyncs — can be
+ * correlated.  The context can also forward entries to the MCP client as
+ * notifications/message, for debugging from the host.
+ */
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const SEVERITY: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+/** Extra key/value data for an entry.  Errors are expanded to name, message and stack. */
+export type LogFields = Record<string, unknown>;
+
+export interface LogEntry {
+  time: string;
+  level: LogLevel;
+  msg: string;
+  requestId?: string;
+  tool?: string;
+  [field: string]: unknown;
+}
+
+export interface LogContext {
+  /** Correlates every entry logged while handling one request. */
+  requestId: string;
+  tool?: string;
+  /** Receives every entry logged in this context, whatever LOG_LEVEL says. */
+  forward?: (entry: LogEntry) => void;
+}
+
+const contexts = new AsyncLocalStorage<LogContext>();
+
+function threshold(): number {
+  const level = process.env.LOG_LEVEL as LogLevel | undefined;
+  return SEVERITY[level ?? "info"] ?? SEVERITY.info;
+}
+
+function serialize(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, ...(value.stack ? { stack: value.stack } : {}) };
+  }
+  return value;
+}
+
+function formatPretty(entry: LogEntry): string {
+  const { time, level, msg, requestId, tool, ...fields } = entry;
+  const tags = [requestId && `req=${requestId}`, tool && `tool=${tool}`].filter(Boolean).join(" ");
+  const extras = Object.entries(fields).map(([k, v]) => {
+    if (v && typeof v === "object" && "stack" in v && typeof v.stack === "string") return `\n${v.stack}`;
+    return ` ${k}=${typeof v === "string" ? v : JSON.stringify(v)}`;
+  });
+  return `${time} ${level.toUpperCase().padEnd(5)} ${tags ? `[${tags}] ` : ""}${msg}${extras.join("")}`;
+}
+
+function emit(level: LogLevel, msg: string, fields: LogFields = {}): void {
+  const context = contexts.getStore();
+  const entry: LogEntry = {
+    time: new Date().toISOString(),
+    level,
+    msg,
+    ...(context ? { requestId: context.requestId } : {}),
+    ...(context?.tool ? { tool: context.tool } : {}),
+  };
+  for (const [key, value] of Object.entries(fields)) entry[key] = serialize(value);
+
+  if (SEVERITY[level] >= threshold()) {
+    process.stderr.write(`${process.env.LOG_FORMAT === "json" ? JSON.stringify(entry) : formatPretty(entry)}\n`);
+  }
+  try {
+    context?.forward?.(entry);
+  } catch {
+    // Forwarding is best effort; never let it break the caller.
+  }
+}
+
+export const log = {
+  debug: (msg: string, fields?: LogFields) => emit("debug", msg, fields),
+  info: (msg: string, fields?: LogFields) => emit("info", msg, fields),
+  warn: (msg: string, fields?: LogFields) => emit("warn", msg, fields),
+  error: (msg: string, fields?: LogFields) => emit("error", msg, fields),
+};
+
+/** A short random ID for a new log context. */
+export function newRequestId(): string {
+  return randomUUID().slice(0, 8);
+}
+
+/** Runs `fn` with `context` attached to everything it logs, including async work. */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  return contexts.run(context, fn);
+}
+
+/** The context of the code currently running, if any. */
+export function currentLogContext(): LogContext | undefined {
+  return contexts.getStore();
+}
@@ -8,19 +8,133 @@
  * Usage:
  *   npm run serve            # Streamable HTTP on http://localhost:3001/mcp
  *   node dist/main.js --stdio  # stdio transport
+ *   node dist/main.js --fake-nexs  # against the in-process fake NExS platform
  */
 
 import { createMcpExpressApp } from "@modelcontextprotocol/sdk/server/express.js";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 import cors from "cors";
-import type { Request, Response } from "express";
-import { createServer } from "./server.js";
+import type { NextFunction, Request, Response } from "express";
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { configureHttpAuth, corsOrigins } from "./auth.js";
+import { DEMO_APP_UUID, startFakeNexs } from "./fake-nexs.js";
+import { log, newRequestId, withLogContext } from "./logger.js";
+import { renderMetrics } from "./metrics.js";
+import {
+  checkSessionStore,
+  createServer,
+  flushSessionStore,
+  listSessions,
+  openDisplayStream,
+  purgeSessions,
+} from "./server.js";
+
+/** Interval between keep-alive comments on idle display streams. */
+const DISPLAY_HEARTBEAT_MS = 25_000;
+
+/** Rejects requests without `Authorization: Bearer <ADMIN_TOKEN>`. */
+function requireAdminToken(token: string) {
+  const expected = Buffer.from(`Bearer ${token}`);
+  return (req: Request, res: Response, next: NextFunction) => {
+    const actual = Buffer.from(req.get("authorization") ?? "");
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+    next();
+  };
+}
+
+/** MCP sessions unused for this long are closed.  Env: MCP_SESSION_IDLE_MINUTES. */
+const MCP_SESSION_IDLE_MS = envInt("MCP_SESSION_IDLE_MINUTES", 120) * 60_000;
+
+/** Open MCP sessions; the least recently used is closed beyond this.  Env: MAX_MCP_SESSIONS. */
+const MAX_MCP_SESSIONS = envInt("MAX_MCP_SESSIONS", 1000);
+
+function envInt(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+interface McpSession {
+  transport: StreamableHTTPServerTransport;
+  /** Authenticated client that opened the session, if any; only it may use it. */
+  clientId: string | undefined;
+  lastSeen: number;
+}
+
+/** Open Streamable HTTP sessions keyed by Mcp-Session-Id. */
+const mcpSessions = new Map<string, McpSession>();
+
+function jsonRpcError(res: Response, status: number, code: number, message: string): void {
+  res.status(status).json({ jsonrpc: "2.0", error: { code, message }, id: null });
+}
+
+/** Closes sessions idle past MCP_SESSION_IDLE_MS, then the oldest beyond MAX_MCP_SESSIONS. */
+function sweepMcpSessions(): void {
+  const now = Date.now();
+  const byAge = [...mcpSessions.values()].sort((a, b) => a.lastSeen - b.lastSeen);
+  byAge.forEach((session, i) => {
+    if (now - session.lastSeen > MCP_SESSION_IDLE_MS || byAge.length - i > MAX_MCP_SESSIONS) {
+      session.transport.close().catch(() => {});
+    }
+  });
+}
+
+/**
+ * Serves one /mcp request.  An initialize request opens a session with its
+ * own McpServer; every later request names it in Mcp-Session-Id.  The
+ * session ID is what tells unauthenticated clients apart (see
+ * resolveClientKey in server.ts), and its McpServer holds the client's
+ * resource subscriptions.
+ */
+async function handleMcpRequest(factory: () => McpServer, req: Request, res: Response): Promise<void> {
+  const sessionId = req.get("mcp-session-id");
+  if (sessionId) {
+    const session = mcpSessions.get(sessionId);
+    // A session is only usable with the credentials that opened it.
+    if (!session || session.clientId !== req.auth?.clientId) {
+      jsonRpcError(res, 404, -32001, "Session not found");
+      return;
+    }
+    session.lastSeen = Date.now();
+    await session.transport.handleRequest(req, res, req.body);
+    return;
+  }
+  if (req.method !== "POST" || !isInitializeRequest(req.body)) {
+    jsonRpcError(res, 400, -32000, "Bad Request: send initialize first, then Mcp-Session-Id with every request");
+    return;
+  }
+
+  const server = factory();
+  const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: (id) => {
+      mcpSessions.set(id, { transport, clientId: req.auth?.clientId, lastSeen: Date.now() });
+      sweepMcpSessions();
+    },
+  });
+  transport.onclose = () => {
+    if (transport.sessionId) mcpSessions.delete(transport.sessionId);
+    server.close().catch(() => {});
+  };
+
+  try {
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  } catch (error) {
+    log.error("MCP request failed", { err: error });
+    if (!res.headersSent) jsonRpcError(res, 500, -32603, "Internal server error");
+  }
+}
 
 /**
- * Starts an MCP server with Streamable HTTP transport in stateless mode.
- * Each request gets its own McpServer instance (factory pattern).
+ * Starts an MCP server with Streamable HTTP transport.  Each MCP session
+ * gets its own McpServer instance (factory pattern).  /mcp requires a
+ * bearer token when MCP_API_KEYS or OAUTH_ISSUER is set.
  */
 async function startStreamableHTTPServer(
   factory: () => McpServer
@@ -28,45 +142,101 @@ async function startStreamableHTTPServer(
   const port = parseInt(process.env.PORT ?? "3001", 10);
 
   const app = createMcpExpressApp({ host: "0.0.0.0" });
-  app.use(cors());
+  let shuttingDown = false;
+
+  // Probes and metrics, outside authentication so platforms can reach them.
+  //   /healthz  the process is up
+  //   /readyz   it can serve: not shutting down, session store answering
+  //   /metrics  Prometheus text format (see metrics.ts)
+  app.get("/healthz", (_req: Request, res: Response) => {
+    res.json({ status: "ok" });
+  });
+  app.get("/readyz", async (_req: Request, res: Response) => {
+    const problem = shuttingDown ? "shutting down" : await checkSessionStore();
+    res.status(problem ? 503 : 200).json(problem ? { status: "unavailable", reason: problem } : { status: "ok" });
+  });
+  app.get("/metrics", (_req: Request, res: Response) => {
+    res.type("text/plain; version=0.0.4").send(renderMetrics());
+  });
+
+  const auth = await configureHttpAuth("/mcp");
+  if (auth?.metadataRouter) app.use(auth.metadataRouter);
+
+  app.use(
+    "/mcp",
+    cors({ origin: corsOrigins(), exposedHeaders: ["Mcp-Session-Id", "WWW-Authenticate"] }),
+  );
+  if (auth) app.use("/mcp", auth.middleware);
 
   app.all("/mcp", async (req: Request, res: Response) => {
-    const server = factory();
-    const transport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: undefined,
-    });
+    // Tool calls in this request log under the caller's ID when it sent one.
+    const requestId = req.get("x-request-id") ?? newRequestId();
+    res.set("X-Request-Id", requestId);
+    await withLogContext({ requestId }, () => handleMcpRequest(factory, req, res));
+  });
 
-    res.on("close", () => {
-      transport.close().catch(() => {});
-      server.close().catch(() => {});
+  // Server-sent event stream of model writes for one App View.  The token in
+  // the path is issued per NExS session by render_nexs_spreadsheet and is the
+  // only credential: the View's sandboxed iframe cannot send a bearer token,
+  // and its origin varies by host, so any origin may connect.
+  app.get("/display/:token", cors(), (req: Request, res: Response) => {
+    res.set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
     });
-
-    try {
-      await server.connect(transport);
-      await transport.handleRequest(req, res, req.body);
-    } catch (error) {
-      console.error("MCP error:", error);
-      if (!res.headersSent) {
-        res.status(500).json({
-          jsonrpc: "2.0",
-          error: { code: -32603, message: "Internal server error" },
-          id: null,
-        });
-      }
+    const detach = openDisplayStream(String(req.params.token), (inputs) => {
+      res.write(`event: inputs\ndata: ${JSON.stringify(inputs)}\n\n`);
+    });
+    if (!detach) {
+      // Unknown or expired session: tell EventSource not to reconnect.
+      res.status(204).end();
+      return;
     }
+    res.flushHeaders();
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), DISPLAY_HEARTBEAT_MS);
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      detach();
+    });
   });
 
+  // Session administration, only mounted when ADMIN_TOKEN is set.
+  //   GET    /admin/sessions                     list live sessions
+  //   DELETE /admin/sessions?client=...&app=...  evict matching sessions
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (adminToken) {
+    app.use("/admin", requireAdminToken(adminToken));
+    app.get("/admin/sessions", (_req: Request, res: Response) => {
+      res.json({ sessions: listSessions() });
+    });
+    app.delete("/admin/sessions", (req: Request, res: Response) => {
+      const clientKey = typeof req.query.client === "string" ? req.query.client : undefined;
+      const appUuid = typeof req.query.app === "string" ? req.query.app : undefined;
+      res.json({ purged: purgeSessions({ clientKey, appUuid }) });
+    });
+  }
+
+  // Never keep the process alive just to sweep.
+  setInterval(sweepMcpSessions, 60_000).unref();
+
   const httpServer = app.listen(port, (err) => {
     if (err) {
-      console.error("Failed to start server:", err);
+      log.error("Failed to start server", { err });
       process.exit(1);
     }
-    console.log(`NExS MCP server listening on http://localhost:${port}/mcp`);
+    log.info(`NExS MCP server listening on http://localhost:${port}/mcp`);
+    if (!auth) log.warn("Authentication is off: set MCP_API_KEYS or OAUTH_ISSUER to require tokens on /mcp");
   });
 
   const shutdown = () => {
-    console.log("\nShutting down...");
-    httpServer.close(() => process.exit(0));
+    log.info("Shutting down");
+    shuttingDown = true;
+    httpServer.close(() => {
+      flushSessionStore().finally(() => process.exit(0));
+    });
+    // Open display and MCP event streams would otherwise hold close() forever.
+    httpServer.closeAllConnections();
   };
 
   process.on("SIGINT", shutdown);
@@ -81,6 +251,12 @@ async function startStdioServer(factory: () => McpServer): Promise<void> {
 }
 
 async function main() {
+  if (process.argv.includes("--fake-nexs")) {
+    const fake = await startFakeNexs();
+    process.env.NEXS_BASE_URL = fake.baseUrl;
+    if (process.env.NEXS_ORIGINS) process.env.NEXS_ORIGINS += `,${fake.baseUrl}`;
+    log.info("Fake NExS platform started", { baseUrl: fake.baseUrl, demoApp: `${fake.baseUrl}/app/${DEMO_APP_UUID}` });
+  }
   if (process.argv.includes("--stdio")) {
     await startStdioServer(createServer);
   } else {
@@ -89,6 +265,6 @@ async function main() {
 }
 
 main().catch((e) => {
-  console.error(e);
+  log.error("Server failed to start", { err: e });
   process.exit(1);
 });
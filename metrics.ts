@@ -0,0 +1,149 @@
+/**
+ * Process-wide metrics in the Prometheus text exposition format, served by
+ * main.ts at /metrics.
+ *
+ * Deliberately tiny: counters and histograms keyed by label values, plus
+ * gauges read from a callback at scrape time.  Everything lives in module
+ * state so the per-session McpServer instances all feed one registry.
+ */
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string[];
+}
+
+const registry: Metric[] = [];
+
+function labelKey(labels: Labels): string {
+  return Object.entries(labels)
+    .map(([k, v]) => `${k}="${v.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`)
+    .join(",");
+}
+
+function series(name: string, key: string, value: number): string {
+  return `${name}${key ? `{${key}}` : ""} ${Number.isFinite(value) ? value : value > 0 ? "+Inf" : "-Inf"}`;
+}
+
+class Counter implements Metric {
+  private readonly values = new Map<string, number>();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+  ) {}
+
+  inc(labels: Labels = {}, by = 1): void {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + by);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.values].map(([key, value]) => series(this.name, key, value)),
+    ];
+  }
+}
+
+class Histogram implements Metric {
+  private readonly values = new Map<string, { buckets: number[]; sum: number; count: number }>();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    /** Upper bounds in seconds, ascending. */
+    private readonly bounds: number[],
+  ) {}
+
+  observe(labels: Labels, seconds: number): void {
+    const key = labelKey(labels);
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = { buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+      this.values.set(key, entry);
+    }
+    this.bounds.forEach((bound, i) => {
+      if (seconds <= bound) entry.buckets[i]++;
+    });
+    entry.sum += seconds;
+    entry.count++;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const [key, { buckets, sum, count }] of this.values) {
+      const le = (bound: string) => (key ? `${key},le="${bound}"` : `le="${bound}"`);
+      this.bounds.forEach((bound, i) => lines.push(series(`${this.name}_bucket`, le(String(bound)), buckets[i])));
+      lines.push(series(`${this.name}_bucket`, le("+Inf"), count));
+      lines.push(series(`${this.name}_sum`, key, sum));
+      lines.push(series(`${this.name}_count`, key, count));
+    }
+    return lines;
+  }
+}
+
+class Gauge implements Metric {
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly collect: () => number,
+  ) {}
+
+  render(): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`, series(this.name, "", this.collect())];
+  }
+}
+
+function register<M extends Metric>(metric: M): M {
+  registry.push(metric);
+  return metric;
+}
+
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+// ---------------------------------------------------------------------------
+// Metrics
+// ---------------------------------------------------------------------------
+
+/** Tool calls by tool and outcome ("ok", "error" for isError results, "throttled", "exception"). */
+export const toolCalls = register(new Counter("nexs_tool_calls_total", "MCP tool calls by tool and outcome."));
+
+export const toolDuration = register(
+  new Histogram("nexs_tool_call_duration_seconds", "MCP tool call latency by tool.", LATENCY_BUCKETS),
+);
+
+/** NExS API attempts by call ("init", "interact") and HTTP status, "timeout" or "network". */
+export const nexsRequests = register(
+  new Counter("nexs_api_requests_total", "NExS API request attempts by call and status."),
+);
+
+export const nexsRequestDuration = register(
+  new Histogram("nexs_api_request_duration_seconds", "NExS API request latency by call.", LATENCY_BUCKETS),
+);
+
+/** get_cell cache lookups on the first try: "hit" or "miss". */
+export const getCellCache = register(
+  new Counter("nexs_get_cell_cache_total", "get_cell cache lookups by result (hit, miss)."),
+);
+
+/** get_cell misses by the fallback that ran: "retry_delay", "interact", "not_found". */
+export const getCellFallbacks = register(
+  new Counter("nexs_get_cell_fallbacks_total", "get_cell fallback paths taken after a cache miss."),
+);
+
+/** Calls refused by our own rate limits, by scope: "client" (tool calls) or "session" (NExS calls). */
+export const rateLimited = register(
+  new Counter("nexs_rate_limited_total", "Calls refused by a rate limit, by scope (client, session)."),
+);
+
+/** Registers a gauge whose value is read from `collect` on every scrape. */
+export function registerGauge(name: string, help: string, collect: () => number): void {
+  register(new Gauge(name, help, collect));
+}
+
+/** Every registered metric in the Prometheus text format. */
+export function renderMetrics(): string {
+  return registry.flatMap((m) => m.render()).join("\n") + "\n";
+}
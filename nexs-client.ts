@@ -0,0 +1,307 @@
+/**
+ * HTTP client for the NExS platform API.
+ *
+ * Every call gets a timeout and honours the caller's abort signal.  Calls
+ * marked idempotent (init, read-only interact syncs) are retried with
+ * jittered exponential backoff on network failures, timeouts, 429 and 5xx;
+ * writes are never retried because NExS may already have applied them.
+ * Failures surface as NexsError subclasses so tools can tell the model what
+ * to do next instead of echoing an HTTP status.
+ *
+ * At most MAX_NEXS_CONCURRENCY attempts are in flight across the process;
+ * further ones wait their turn (without their timeout running).
+ */
+import { currentLogContext, log } from "./logger.js";
+import { nexsRequestDuration, nexsRequests, registerGauge } from "./metrics.js";
+import { Semaphore } from "./rate-limit.js";
+
+/**
+ * Origin of the default NExS platform, used when NEXS_ORIGINS is unset.  Set
+ * NEXS_BASE_URL to point at a staging platform or the local fake
+ * (fake-nexs.ts).  Read per call so main.ts can configure it after import.
+ */
+export function nexsBaseUrl(): string {
+  return new URL(process.env.NEXS_BASE_URL ?? "https://platform.nexs.com").origin;
+}
+
+/**
+ * Every NExS origin the server will talk to and the View may frame: the
+ * comma-separated NEXS_ORIGINS (e.g. the public platform plus a self-hosted
+ * one), or just nexsBaseUrl() when that is unset.
+ */
+export function nexsOrigins(): string[] {
+  const listed = (process.env.NEXS_ORIGINS ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .map((s) => new URL(s).origin);
+  return listed.length > 0 ? [...new Set(listed)] : [nexsBaseUrl()];
+}
+
+/** The allowlisted NExS origin `url` belongs to, or null. */
+export function allowedNexsOrigin(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  return nexsOrigins().includes(parsed.origin) ? parsed.origin : null;
+}
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+/** Base class for every failure talking to NExS. */
+export class NexsError extends Error {
+  constructor(
+    message: string,
+    /** HTTP status, when NExS answered at all. */
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/** The NExS session is gone (expired or evicted); a new init is needed. */
+export class NexsSessionExpiredError extends NexsError {}
+
+/** The app is private and the caller's NExS token is missing or lacks access. */
+export class NexsUnauthorizedError extends NexsError {}
+
+/** The app UUID (or endpoint) does not exist. */
+export class NexsNotFoundError extends NexsError {}
+
+/** NExS rejected the request body: unknown sheet, bad address, formula cell... */
+export class NexsValidationError extends NexsError {}
+
+/** The write named a revision other than the session's latest. */
+export class NexsRevisionConflictError extends NexsError {
+  constructor(
+    message: string,
+    status: number,
+    /** The session's latest revision, when NExS reported it. */
+    readonly currentRevision: number | null,
+  ) {
+    super(message, status);
+  }
+}
+
+/** NExS is throttling this server. */
+export class NexsRateLimitError extends NexsError {
+  constructor(
+    message: string,
+    status: number,
+    /** Delay NExS asked for via Retry-After, if any. */
+    readonly retryAfterMs: number | null,
+  ) {
+    super(message, status);
+  }
+}
+
+/** NExS could not be reached, or did not answer in time. */
+export class NexsNetworkError extends NexsError {
+  constructor(
+    message: string,
+    readonly timedOut: boolean,
+  ) {
+    super(message);
+  }
+}
+
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/** Maps a non-2xx NExS response to the matching error type. */
+async function errorFromResponse(resp: Response, label: string): Promise<NexsError> {
+  const body = await resp.text().catch(() => "");
+  let detail = body;
+  let currentRevision: number | null = null;
+  try {
+    const parsed = JSON.parse(body) as { error?: unknown; detail?: unknown; revision?: unknown };
+    detail = String(parsed.error ?? parsed.detail ?? body);
+    if (typeof parsed.revision === "number") currentRevision = parsed.revision;
+  } catch {
+    // Plain-text body.
+  }
+  const message = `NExS ${label} failed (${resp.status})${detail ? `: ${detail}` : ""}`;
+  if (resp.status === 410 || (resp.status === 404 && /session/i.test(detail))) {
+    return new NexsSessionExpiredError(message, resp.status);
+  }
+  if (resp.status === 401 || resp.status === 403) return new NexsUnauthorizedError(message, resp.status);
+  if (resp.status === 404) return new NexsNotFoundError(message, resp.status);
+  if (resp.status === 409) return new NexsRevisionConflictError(message, resp.status, currentRevision);
+  if (resp.status === 400 || resp.status === 422) return new NexsValidationError(message, resp.status);
+  if (resp.status === 429) {
+    return new NexsRateLimitError(message, resp.status, parseRetryAfter(resp.headers.get("retry-after")));
+  }
+  return new NexsError(message, resp.status);
+}
+
+function isRetryable(err: unknown): boolean {
+  if (err instanceof NexsNetworkError || err instanceof NexsRateLimitError) return true;
+  return err instanceof NexsError && err.status !== undefined && [502, 503, 504].includes(err.status);
+}
+
+// ---------------------------------------------------------------------------
+// Requests
+// ---------------------------------------------------------------------------
+
+export interface NexsRequestOptions {
+  /** Per-attempt timeout. */
+  timeoutMs?: number;
+  /** Retries after the first attempt; only used when `idempotent`. */
+  retries?: number;
+  /** True when repeating the call cannot change NExS state twice. */
+  idempotent?: boolean;
+  /** Cancels the call (e.g. the MCP request's signal). */
+  signal?: AbortSignal;
+  /** The user's NExS token, sent as a bearer token; needed for private apps. */
+  token?: string | null;
+  /** NExS origin hosting the app (see nexsOrigins); defaults to nexsBaseUrl(). */
+  origin?: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_RETRIES = 2;
+const BACKOFF_BASE_MS = 250;
+const BACKOFF_MAX_MS = 4_000;
+
+const DEFAULT_CONCURRENCY = 8;
+
+/** NExS attempts allowed in flight at once; 0 lifts the cap.  Env: MAX_NEXS_CONCURRENCY. */
+function maxConcurrency(): number {
+  const value = Number.parseInt(process.env.MAX_NEXS_CONCURRENCY ?? "", 10);
+  return value >= 0 ? value : DEFAULT_CONCURRENCY;
+}
+
+/** Outbound slots, shared by every NExS origin. */
+const outbound = new Semaphore(maxConcurrency());
+
+registerGauge("nexs_api_requests_in_flight", "NExS API attempts in flight.", () => outbound.inFlight);
+registerGauge("nexs_api_requests_queued", "NExS API attempts waiting for a free slot.", () => outbound.queued);
+
+/** Full-jitter exponential backoff, stretched to honour Retry-After. */
+function backoffDelay(attempt: number, err: unknown): number {
+  const ceiling = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  const jittered = Math.random() * ceiling;
+  const retryAfter = err instanceof NexsRateLimitError ? err.retryAfterMs : null;
+  return retryAfter !== null ? Math.max(retryAfter, jittered) : jittered;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+async function attempt<T>(
+  url: string,
+  body: unknown,
+  label: string,
+  timeoutMs: number,
+  signal?: AbortSignal,
+  token?: string | null,
+): Promise<T> {
+  const timeout = AbortSignal.timeout(timeoutMs);
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (token) headers.Authorization = `Bearer ${token}`;
+  // Lets NExS-side logs be matched with ours.
+  const requestId = currentLogContext()?.requestId;
+  if (requestId) headers["X-Request-Id"] = requestId;
+  let resp: Response;
+  const start = performance.now();
+  const record = (status: string) => {
+    const seconds = (performance.now() - start) / 1000;
+    nexsRequests.inc({ call: label, status });
+    nexsRequestDuration.observe({ call: label }, seconds);
+    log.debug(`NExS ${label}`, { url, status, ms: Math.round(seconds * 1000) });
+  };
+  try {
+    resp = await fetch(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    });
+  } catch (err) {
+    // The caller's own cancellation propagates untouched.
+    if (signal?.aborted) {
+      record("cancelled");
+      throw signal.reason;
+    }
+    if (timeout.aborted) {
+      record("timeout");
+      throw new NexsNetworkError(`NExS ${label} timed out after ${timeoutMs / 1000} s`, true);
+    }
+    record("network");
+    throw new NexsNetworkError(
+      `Could not reach NExS for ${label}: ${err instanceof Error ? err.message : String(err)}`,
+      false,
+    );
+  }
+  record(String(resp.status));
+  if (!resp.ok) throw await errorFromResponse(resp, label);
+  return (await resp.json()) as T;
+}
+
+/** Runs one attempt in an outbound slot; backoff sleeps happen outside it. */
+async function withSlot<T>(signal: AbortSignal | undefined, fn: () => Promise<T>): Promise<T> {
+  const release = await outbound.acquire(signal);
+  try {
+    return await fn();
+  } finally {
+    release();
+  }
+}
+
+/**
+ * POSTs `body` to `path` on the NExS platform at `origin` and returns the
+ * parsed JSON.  `label` names the call in error messages ("init", "interact").
+ */
+export async function nexsRequest<T>(
+  path: string,
+  body: unknown,
+  label: string,
+  {
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retries = DEFAULT_RETRIES,
+    idempotent = false,
+    signal,
+    token,
+    origin = nexsBaseUrl(),
+  }: NexsRequestOptions = {},
+): Promise<T> {
+  const url = `${origin}${path}`;
+  const maxAttempts = idempotent ? retries + 1 : 1;
+  for (let n = 0; ; n++) {
+    try {
+      return await withSlot(signal, () => attempt<T>(url, body, label, timeoutMs, signal, token));
+    } catch (err) {
+      if (n + 1 >= maxAttempts || !isRetryable(err)) throw err;
+      const delay = backoffDelay(n, err);
+      log.warn(`NExS ${label} failed; retrying`, {
+        attempt: n + 1,
+        delayMs: Math.round(delay),
+        error: err instanceof Error ? err.message : String(err),
+      });
+      await sleep(delay, signal);
+    }
+  }
+}
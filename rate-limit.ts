@@ -0,0 +1,104 @@
+/**
+ * Load control for tool calls and NExS API traffic.
+ *
+ *   RateLimiter  token buckets keyed by client or session, refilled
+ *                continuously, so a runaway agent loop is refused with a
+ *                retry-after delay instead of hammering NExS
+ *   Semaphore    caps how many NExS requests are in flight at once
+ *
+ * Both live in module state of their users, shared by every per-session
+ * McpServer instance.
+ */
+
+/** Refused by one of our own limits (not by NExS; see NexsRateLimitError). */
+export class ThrottledError extends Error {
+  constructor(
+    message: string,
+    /** How long until the call would be allowed. */
+    readonly retryAfterMs: number,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Allows each key `perMinute` calls per minute on average, with bursts of up
+ * to `perMinute`.  A limit of 0 or less disables it.
+ */
+export class RateLimiter {
+  private readonly buckets = new Map<string, { tokens: number; at: number }>();
+
+  constructor(readonly perMinute: number) {}
+
+  /** Spends one call from `key`'s budget: 0 when allowed, else milliseconds to wait. */
+  take(key: string, now = Date.now()): number {
+    if (this.perMinute <= 0) return 0;
+    const rate = this.perMinute / 60_000;
+    const bucket = this.buckets.get(key) ?? { tokens: this.perMinute, at: now };
+    bucket.tokens = Math.min(this.perMinute, bucket.tokens + (now - bucket.at) * rate);
+    bucket.at = now;
+    this.buckets.set(key, bucket);
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil((1 - bucket.tokens) / rate);
+  }
+
+  /** Forgets keys whose budget has refilled completely; they behave as new. */
+  prune(now = Date.now()): void {
+    const rate = this.perMinute / 60_000;
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.tokens + (now - bucket.at) * rate >= this.perMinute) this.buckets.delete(key);
+    }
+  }
+}
+
+/** At most `limit` holders at a time, served first come first served.  0 or less means no limit. */
+export class Semaphore {
+  private active = 0;
+  private readonly waiters: Array<() => void> = [];
+
+  constructor(readonly limit: number) {}
+
+  get inFlight(): number {
+    return this.active;
+  }
+
+  get queued(): number {
+    return this.waiters.length;
+  }
+
+  /** Waits for a slot and returns the function that gives it back. */
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    if (this.limit <= 0 || this.active < this.limit) {
+      this.active++;
+      return Promise.resolve(this.releaser());
+    }
+    return new Promise((resolve, reject) => {
+      const waiter = () => {
+        signal?.removeEventListener("abort", onAbort);
+        this.active++;
+        resolve(this.releaser());
+      };
+      const onAbort = () => {
+        this.waiters.splice(this.waiters.indexOf(waiter), 1);
+        reject(signal!.reason);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.waiters.push(waiter);
+    });
+  }
+
+  private releaser(): () => void {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.active--;
+      this.waiters.shift()?.();
+    };
+  }
+}
@@ -3,11 +3,59 @@ import {
   registerAppTool,
   RESOURCE_MIME_TYPE,
 } from "@modelcontextprotocol/ext-apps/server";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import type { CallToolResult, ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import {
+  ErrorCode,
+  LoggingLevelSchema,
+  McpError,
+  SetLevelRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type CallToolResult,
+  type LoggingLevel,
+  type ReadResourceResult,
+  type ServerNotification,
+  type ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { randomUUID } from "node:crypto";
 import fs from "node:fs/promises";
 import path from "node:path";
 import { z } from "zod";
+import { columnLetters, parseAddr } from "./cell-addr.js";
+import {
+  sheetsToJson,
+  sheetsToXlsx,
+  sheetToCsv,
+  type ExportOptions,
+  type ExportSheet,
+} from "./export.js";
+import {
+  NexsError,
+  NexsNetworkError,
+  NexsNotFoundError,
+  NexsRateLimitError,
+  NexsRevisionConflictError,
+  NexsSessionExpiredError,
+  NexsUnauthorizedError,
+  NexsValidationError,
+  allowedNexsOrigin,
+  nexsOrigins,
+  nexsRequest,
+} from "./nexs-client.js";
+import { currentLogContext, log, newRequestId, withLogContext, type LogEntry, type LogLevel } from "./logger.js";
+import {
+  getCellCache,
+  getCellFallbacks,
+  rateLimited,
+  registerGauge,
+  toolCalls,
+  toolDuration,
+} from "./metrics.js";
+import { RateLimiter, ThrottledError } from "./rate-limit.js";
+import { createSessionStore, type SessionStore } from "./session-store.js";
 
 // Works both from source (server.ts via tsx) and compiled (dist/server.js)
 const DIST_DIR = import.meta.filename.endsWith(".ts")
@@ -16,6 +64,77 @@ const DIST_DIR = import.meta.filename.endsWith(".ts")
 
 const RESOURCE_URI = "ui://nexs/spreadsheet.html";
 
+/** Timeout for one NExS init attempt (the full workbook is returned). */
+const NEXS_INIT_TIMEOUT_MS = 15_000;
+
+/** Timeout for one NExS interact attempt. */
+const NEXS_INTERACT_TIMEOUT_MS = 10_000;
+
+/** Timeout for get_cell's fallback sync, kept short to stay inside host tool-call limits. */
+const GET_CELL_SYNC_TIMEOUT_MS = 3_000;
+
+/** Upper bound on cells returned by a single get_range call. */
+const MAX_RANGE_CELLS = 2000;
+
+/** Upper bound on inputs sent in a single set_cells interact call. */
+const MAX_BATCH_INPUTS = 200;
+
+/** Upper bound on input/output addresses listed per sheet by describe_spreadsheet. */
+const MAX_DESCRIBE_CELLS = 500;
+
+/** Upper bound on evaluated points (interact calls) in one sweep_inputs call. */
+const MAX_SWEEP_POINTS = 200;
+
+/** Upper bound on goal_seek iterations (each one is an interact call). */
+const MAX_GOAL_SEEK_ITERATIONS = 100;
+
+/** Undo entries kept per session; the oldest are dropped beyond this. */
+const MAX_HISTORY_ENTRIES = 100;
+
+/** Upper bound on changed inputs/outputs listed by diff_spreadsheet. */
+const MAX_DIFF_CELLS = 500;
+
+/** Sessions unused for this long are evicted.  Env: SESSION_IDLE_TTL_MINUTES. */
+const SESSION_IDLE_TTL_MS = envInt("SESSION_IDLE_TTL_MINUTES", 120) * 60_000;
+
+/** Live sessions across all clients; least recently used go first.  Env: MAX_LIVE_SESSIONS. */
+const MAX_LIVE_SESSIONS = envInt("MAX_LIVE_SESSIONS", 500);
+
+/** Cached cells one session may hold before it is evicted.  Env: MAX_SESSION_CELLS. */
+const MAX_SESSION_CELLS = envInt("MAX_SESSION_CELLS", 100_000);
+
+/** How often idle and over-limit sessions are swept. */
+const SESSION_SWEEP_INTERVAL_MS = 60_000;
+
+/** Evicted apps remembered per client, so tools can say why a session is gone. */
+const MAX_EXPIRED_PER_CLIENT = 20;
+
+/**
+ * How long an evicted app is remembered.  A client with no live sessions is
+ * forgotten once the last of these notes lapses.
+ */
+const EXPIRED_NOTE_TTL_MS = 24 * 60 * 60_000;
+
+/**
+ * Tool calls one client may make per minute, in bursts of up to as many; 0
+ * turns the limit off.  Env: MAX_CLIENT_CALLS_PER_MINUTE.
+ */
+const MAX_CLIENT_CALLS_PER_MINUTE = envInt("MAX_CLIENT_CALLS_PER_MINUTE", 120, 0);
+
+/**
+ * NExS calls made per minute on one live session's behalf: writes, syncs,
+ * and every call of the forks behind the what-if tools, so a large
+ * sweep_inputs or goal_seek uses a good share.  0 turns the limit off.
+ * Env: MAX_SESSION_NEXS_CALLS_PER_MINUTE.
+ */
+const MAX_SESSION_NEXS_CALLS_PER_MINUTE = envInt("MAX_SESSION_NEXS_CALLS_PER_MINUTE", 300, 0);
+
+/** Reads an integer setting; unset, malformed or below `min` gives `fallback`. */
+function envInt(name: string, fallback: number, min = 1): number {
+  const value = Number.parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(value) && value >= min ? value : fallback;
+}
+
 // ---------------------------------------------------------------------------
 // NExS interact API types
 // ---------------------------------------------------------------------------
@@ -26,6 +145,11 @@ interface NexsCellInfo {
   datatype: "numeric" | "string" | "error" | "n/a";
   text: string;
   formula?: string;
+  /**
+   * Editability flag some embed protocol payloads carry for input cells.
+   * When present it overrides the formula-based guess in isInputCell().
+   */
+  editable?: boolean;
 }
 
 interface NexsView {
@@ -35,6 +159,17 @@ interface NexsView {
   isInvisible: boolean;
 }
 
+/**
+ * A defined name (named cell or range).  NExS reports these alongside the
+ * views when the workbook defines any; `range` is a single address ("B7") or
+ * a range ("B2:B9") on `sheetName`.
+ */
+interface NexsName {
+  name: string;
+  sheetName: string;
+  range: string;
+}
+
 /** [sheetname, cellinfo] tuple as returned by both init and interact. */
 type NexsCellEntry = [string, NexsCellInfo];
 
@@ -50,10 +185,16 @@ type NexsCellEntry = [string, NexsCellInfo];
  * forward the same input to the iframe via postMessage.
  */
 interface NexsSession {
+  /** Client that rendered the app (see resolveClientKey); "" for forks. */
+  clientKey: string;
   appUuid: string;
+  /** The URL passed to render_nexs_spreadsheet for this app. */
+  appUrl: string;
   sessionId: string;
   revision: number;
   views: NexsView[];
+  /** Defined names keyed by upper-cased name. */
+  names: Map<string, NexsName>;
   /** Full current-state cache keyed by "SheetName!ADDR" (addr uppercased). */
   cellCache: Map<string, { sheetName: string; ci: NexsCellInfo }>;
   /**
@@ -64,731 +205,4030 @@ interface NexsSession {
    */
   seededFromBrowser: boolean;
   /**
-   * Inputs queued by set_cell to be forwarded to the iframe.
-   * The browser's polling loop (pop_nexs_display_inputs) drains this queue and
-   * sends each entry to the iframe via {op:"input"} postMessage so the live
-   * display stays in sync with what the AI wrote.
+   * Inputs written by set_cell and friends while no display stream was open.
+   * Delivered on the next stream connect, or drained by the View's fallback
+   * polling loop (pop_nexs_display_inputs).
+   */
+  pendingDisplayInputs: DisplayInput[];
+  /** Secret path segment of this session's display stream; "" for forks. */
+  displayToken: string;
+  /** Open display streams (see openDisplayStream). */
+  displayStreams: Set<(inputs: DisplayInput[]) => void>;
+  /**
+   * Input changes made through this server (set_cell and friends) or relayed
+   * from the iframe (user edits), newest last.  undo_last_change pops `undo`
+   * onto `redo`; any new change clears `redo`.  `log` holds every change in
+   * revision order, undos and redos included, so diff_spreadsheet can rebuild
+   * any revision from `loggedSince` on.
+   */
+  history: { undo: HistoryEntry[]; redo: HistoryEntry[]; log: HistoryEntry[]; loggedSince: number };
+  /** Input values saved by save_snapshot, keyed by snapshot name. */
+  snapshots: Map<string, Snapshot>;
+  /**
+   * The published values nexsInit() returned, kept as the baseline for
+   * diff_spreadsheet.  Null until an init call has succeeded.
+   */
+  published: NexsSession["cellCache"] | null;
+  /** Epoch milliseconds of the last tool call that resolved this session. */
+  lastUsed: number;
+  /**
+   * The NExS token for private apps (see resolveNexsToken), refreshed on
+   * every tool call.  Never persisted.
+   */
+  nexsToken: string | null;
+  /**
+   * The user's own NExS token (see userNexsToken), the only one that may go
+   * into the iframe URL.  Never the deployment-wide NEXS_TOKEN.
    */
-  pendingDisplayInputs: Array<{ viewIndex: number; addr: string; value: string | number }>;
+  embedToken: string | null;
 }
 
-// ---------------------------------------------------------------------------
-// Module-level store — one process, survives across per-request McpServer
-// instances.
-// ---------------------------------------------------------------------------
+/** One recorded change to input cells, with what they held before. */
+interface HistoryEntry {
+  /** Revision after the change was applied. */
+  revision: number;
+  /** "ai" for writes made through this server's tools, "user" for iframe edits. */
+  source: "ai" | "user";
+  /** Epoch milliseconds when the change was recorded. */
+  at: number;
+  inputs: CellWrite[];
+  previous: CellWrite[];
+}
 
-let lastSpreadsheetUrl: string | null = null;
-let nexsSession: NexsSession | null = null;
+/** Every input cell's value at the time save_snapshot was called. */
+interface Snapshot {
+  name: string;
+  revision: number;
+  createdAt: number;
+  inputs: CellWrite[];
+  /** Copy of the whole cache, so diff_spreadsheet can compare outputs too. */
+  cells: NexsSession["cellCache"];
+}
 
 // ---------------------------------------------------------------------------
-// NExS API helpers
+// Session registry — one process, survives across McpServer instances.
+//
+// Sessions are keyed first by client identity and then by NExS app UUID, so
+// two people using the same deployment never read or write each other's
+// cells.  A tool call can only ever reach the sessions of its own client.
 // ---------------------------------------------------------------------------
 
-function extractNexsUuid(url: string): string | null {
-  const m = url.match(
-    /\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})/i
-  );
-  return m ? m[1] : null;
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+interface ClientState {
+  /** App rendered most recently by this client; the target of get_cell/set_cell. */
+  activeAppUuid: string | null;
+  /** URL rendered most recently by this client, for restore_nexs_spreadsheet. */
+  lastSpreadsheetUrl: string | null;
+  /** One session per NExS app UUID. */
+  sessions: Map<string, NexsSession>;
+  /** Apps whose session was evicted, keyed by UUID, until they are rendered again. */
+  expired: Map<string, ExpiredSession>;
 }
 
-function parseCellRef(cellRef: string): { sheet: string | null; cell: string } {
-  const bangIdx = cellRef.indexOf("!");
-  if (bangIdx !== -1) {
-    return { sheet: cellRef.slice(0, bangIdx), cell: cellRef.slice(bangIdx + 1) };
+type EvictionReason = "idle" | "capacity" | "too_large" | "purged";
+
+interface ExpiredSession {
+  reason: EvictionReason;
+  appUrl: string;
+  at: number;
+}
+
+const clients = new Map<string, ClientState>();
+
+/**
+ * Header an authenticated reverse proxy can set to tell apart the end users
+ * or conversations it serves under one token.  Ignored on unauthenticated
+ * requests, where anyone could claim any value.
+ */
+const CLIENT_ID_HEADER = "x-nexs-client-id";
+
+/**
+ * Derives a stable identity for the MCP client making this request.
+ *
+ * In order of preference: the authenticated token's client (narrowed by
+ * CLIENT_ID_HEADER when the caller sends one), the transport session ID
+ * (every Streamable HTTP session, see main.ts), and finally a shared
+ * "default" bucket.  stdio runs one process per client, so "default" is
+ * already isolated there.
+ */
+function resolveClientKey(extra: ToolExtra): string {
+  if (extra.authInfo) {
+    const header = extra.requestInfo?.headers[CLIENT_ID_HEADER];
+    const headerValue = Array.isArray(header) ? header[0] : header;
+    return headerValue ? `auth:${extra.authInfo.clientId}/${headerValue}` : `auth:${extra.authInfo.clientId}`;
   }
-  return { sheet: null, cell: cellRef };
+  if (extra.sessionId) return `session:${extra.sessionId}`;
+  return "default";
 }
 
-interface NexsInitResult {
+/** Header through which a proxy can pass the end user's NExS token. */
+const NEXS_TOKEN_HEADER = "x-nexs-token";
+
+/**
+ * The end user's own NExS token for this request: the one exchanged for
+ * their access token (see auth.ts), else the NEXS_TOKEN_HEADER.
+ */
+function userNexsToken(extra: ToolExtra): string | null {
+  const fromAuth = extra.authInfo?.extra?.nexsToken;
+  if (typeof fromAuth === "string" && fromAuth) return fromAuth;
+  const header = extra.requestInfo?.headers[NEXS_TOKEN_HEADER];
+  const headerValue = Array.isArray(header) ? header[0] : header;
+  return headerValue || null;
+}
+
+/**
+ * The NExS token to forward for this request, needed to open private
+ * (unpublished) apps: the user's own (userNexsToken), else the
+ * deployment-wide NEXS_TOKEN for callers trusted with it — stdio, which
+ * carries no HTTP request, and authenticated HTTP requests.  Anonymous HTTP
+ * callers only reach published apps.
+ */
+function resolveNexsToken(extra: ToolExtra): string | null {
+  const own = userNexsToken(extra);
+  if (own) return own;
+  const trusted = extra.requestInfo === undefined || extra.authInfo !== undefined;
+  return (trusted && process.env.NEXS_TOKEN) || null;
+}
+
+/**
+ * The client's state, rehydrated from the session store on the first call
+ * after a restart.  Null when the client has never rendered anything.
+ */
+async function loadClientState(extra: ToolExtra): Promise<ClientState | null> {
+  const key = resolveClientKey(extra);
+  const live = clients.get(key);
+  if (live) return live;
+  let stored: StoredClient | null;
+  try {
+    stored = await sessionStore().load(key);
+  } catch (err) {
+    // A broken store must not take the tools down; carry on in memory.
+    log.error("Failed to load sessions", { clientKey: key, err });
+    return null;
+  }
+  if (!stored) return null;
+  // A concurrent call may have hydrated the client while we were loading.
+  let state = clients.get(key);
+  if (!state) {
+    state = hydrateClient(key, stored);
+    clients.set(key, state);
+    log.info("Rehydrated sessions", { clientKey: key, sessions: state.sessions.size });
+  }
+  return state;
+}
+
+async function getClientState(extra: ToolExtra): Promise<ClientState> {
+  const existing = await loadClientState(extra);
+  if (existing) return existing;
+  const state: ClientState = {
+    activeAppUuid: null,
+    lastSpreadsheetUrl: null,
+    sessions: new Map(),
+    expired: new Map(),
+  };
+  clients.set(resolveClientKey(extra), state);
+  return state;
+}
+
+/**
+ * Resolves the session a tool call should operate on.
+ *
+ * The App View passes its own app_url so its relay always lands on the
+ * spreadsheet it is displaying; model-facing tools omit it and get the
+ * client's most recently rendered app.
+ */
+async function resolveSession(extra: ToolExtra, appUrl?: string): Promise<NexsSession | null> {
+  const state = await loadClientState(extra);
+  if (!state) return null;
+  const appUuid = appUrl ? extractNexsUuid(appUrl) : state.activeAppUuid;
+  return touchSession(appUuid ? state.sessions.get(appUuid) : undefined, extra);
+}
+
+/** Like resolveSession, for resource reads that name the app UUID directly. */
+async function resolveSessionByUuid(extra: ToolExtra, appUuid: string): Promise<NexsSession | null> {
+  return touchSession((await loadClientState(extra))?.sessions.get(appUuid.toLowerCase()), extra);
+}
+
+function touchSession(session: NexsSession | undefined, extra: ToolExtra): NexsSession | null {
+  if (!session) return null;
+  session.lastUsed = Date.now();
+  session.nexsToken = resolveNexsToken(extra);
+  session.embedToken = userNexsToken(extra);
+  return session;
+}
+
+// ---------------------------------------------------------------------------
+// Session persistence
+//
+// Each client's state is saved as one JSON record (see session-store.ts) a
+// moment after it changes, and loaded back lazily by loadClientState.
+// Display streams and queued display inputs are transient and not saved.
+// ---------------------------------------------------------------------------
+
+/** Delay between a change and its save, so bursts of updates save once. */
+const PERSIST_DELAY_MS = 250;
+
+type StoredCache = Array<[string, { sheetName: string; ci: NexsCellInfo }]>;
+
+interface StoredSession {
+  appUuid: string;
+  appUrl: string;
   sessionId: string;
   revision: number;
   views: NexsView[];
-  values: NexsCellEntry[];
+  names: NexsName[];
+  cells: StoredCache;
+  published: StoredCache | null;
+  seededFromBrowser: boolean;
+  displayToken: string;
+  history: NexsSession["history"];
+  snapshots: Array<Omit<Snapshot, "cells"> & { cells: StoredCache }>;
+  lastUsed: number;
+}
+
+interface StoredClient {
+  activeAppUuid: string | null;
+  lastSpreadsheetUrl: string | null;
+  sessions: StoredSession[];
+  expired: Array<[string, ExpiredSession]>;
+}
+
+let store: SessionStore<StoredClient> | null = null;
+
+function sessionStore(): SessionStore<StoredClient> {
+  store ??= createSessionStore<StoredClient>();
+  return store;
+}
+
+function dehydrateClient(state: ClientState): StoredClient {
+  return {
+    activeAppUuid: state.activeAppUuid,
+    lastSpreadsheetUrl: state.lastSpreadsheetUrl,
+    sessions: [...state.sessions.values()].map((s) => ({
+      appUuid: s.appUuid,
+      appUrl: s.appUrl,
+      sessionId: s.sessionId,
+      revision: s.revision,
+      views: s.views,
+      names: [...s.names.values()],
+      cells: [...s.cellCache],
+      published: s.published ? [...s.published] : null,
+      seededFromBrowser: s.seededFromBrowser,
+      displayToken: s.displayToken,
+      history: s.history,
+      snapshots: [...s.snapshots.values()].map((snap) => ({ ...snap, cells: [...snap.cells] })),
+      lastUsed: s.lastUsed,
+    })),
+    expired: [...state.expired],
+  };
+}
+
+function hydrateClient(clientKey: string, stored: StoredClient): ClientState {
+  const sessions = new Map<string, NexsSession>();
+  for (const s of stored.sessions) {
+    const session: NexsSession = {
+      clientKey,
+      appUuid: s.appUuid,
+      appUrl: s.appUrl,
+      sessionId: s.sessionId,
+      revision: s.revision,
+      views: s.views,
+      names: new Map(s.names.map((n) => [n.name.toUpperCase(), n])),
+      cellCache: new Map(s.cells),
+      published: s.published ? new Map(s.published) : null,
+      // The cache is as good as it was before the restart; don't wait for
+      // an initApp that an already-mounted iframe will never resend.
+      seededFromBrowser: s.seededFromBrowser || s.cells.length > 0,
+      pendingDisplayInputs: [],
+      displayToken: s.displayToken,
+      displayStreams: new Set(),
+      history: s.history,
+      snapshots: new Map(s.snapshots.map((snap) => [snap.name, { ...snap, cells: new Map(snap.cells) }])),
+      lastUsed: s.lastUsed,
+      nexsToken: null,
+      embedToken: null,
+    };
+    sessions.set(session.appUuid, session);
+    if (session.displayToken) displaySessions.set(session.displayToken, session);
+  }
+  return {
+    activeAppUuid: stored.activeAppUuid,
+    lastSpreadsheetUrl: stored.lastSpreadsheetUrl,
+    sessions,
+    expired: new Map(stored.expired),
+  };
+}
+
+const persistTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+/** Saves the client's state shortly; repeated calls coalesce. */
+function persistClient(clientKey: string): void {
+  // Forks ("") are never registered with a client and never saved.
+  if (!clientKey || persistTimers.has(clientKey)) return;
+  persistTimers.set(
+    clientKey,
+    setTimeout(() => {
+      persistTimers.delete(clientKey);
+      void saveClient(clientKey);
+    }, PERSIST_DELAY_MS),
+  );
+}
+
+async function saveClient(clientKey: string): Promise<void> {
+  const state = clients.get(clientKey);
+  if (!state) return;
+  try {
+    await sessionStore().save(clientKey, dehydrateClient(state));
+  } catch (err) {
+    log.error("Failed to persist sessions", { clientKey, err });
+  }
+}
+
+async function deleteClient(clientKey: string): Promise<void> {
+  try {
+    await sessionStore().delete(clientKey);
+  } catch (err) {
+    log.error("Failed to delete stored sessions", { clientKey, err });
+  }
+}
+
+/** Saves every pending change now; called on shutdown. */
+export async function flushSessionStore(): Promise<void> {
+  const keys = [...persistTimers.keys()];
+  for (const key of keys) clearTimeout(persistTimers.get(key));
+  persistTimers.clear();
+  await Promise.all(keys.map(saveClient));
 }
 
 /**
- * POST /api/app/{uuid}/init
- *
- * Creates a NExS session and returns all current cell values.
- * The endpoint is csrf_exempt and works without cookies for public apps.
- * The returned session UUID is the one used by the iframe for the lifetime of
- * the conversation; get_cell / set_cell both operate on this same session.
+ * Checks that the session store answers, for the readiness probe.  Returns
+ * what is wrong, or null when ready.
  */
-async function nexsInit(appUuid: string): Promise<NexsInitResult> {
-  const resp = await fetch(
-    `https://platform.nexs.com/api/app/${appUuid}/init`,
-    {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({}),
+export async function checkSessionStore(): Promise<string | null> {
+  try {
+    await sessionStore().load("readyz");
+    return null;
+  } catch (err) {
+    return `session store unavailable: ${err instanceof Error ? err.message : String(err)}`;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Session limits
+//
+// Sessions are evicted when idle past SESSION_IDLE_TTL_MS, when their cache
+// outgrows MAX_SESSION_CELLS, and least-recently-used first once there are
+// more than MAX_LIVE_SESSIONS.  The client keeps a note of each evicted app
+// so tools can say "expired, re-render" instead of "nothing loaded", and is
+// forgotten once it has neither live sessions nor notes younger than
+// EXPIRED_NOTE_TTL_MS.
+// ---------------------------------------------------------------------------
+
+function evictSession(state: ClientState, session: NexsSession, reason: EvictionReason): void {
+  state.sessions.delete(session.appUuid);
+  displaySessions.delete(session.displayToken);
+  state.expired.delete(session.appUuid);
+  state.expired.set(session.appUuid, { reason, appUrl: session.appUrl, at: Date.now() });
+  for (const appUuid of state.expired.keys()) {
+    if (state.expired.size <= MAX_EXPIRED_PER_CLIENT) break;
+    state.expired.delete(appUuid);
+  }
+  log.info("Evicted session", { clientKey: session.clientKey, appUuid: session.appUuid, reason });
+  persistClient(session.clientKey);
+}
+
+/** Evicts a session whose cache has outgrown MAX_SESSION_CELLS. */
+function enforceCellLimit(session: NexsSession): void {
+  if (session.cellCache.size <= MAX_SESSION_CELLS) return;
+  const state = clients.get(session.clientKey);
+  if (state?.sessions.get(session.appUuid) === session) evictSession(state, session, "too_large");
+}
+
+/**
+ * Drops a client that has no live sessions left, in memory and in the
+ * session store.  HTTP clients without authentication get a new key with
+ * every MCP session, so without this both would grow for the life of the
+ * deployment.
+ */
+function forgetClient(clientKey: string): void {
+  clients.delete(clientKey);
+  clearTimeout(persistTimers.get(clientKey));
+  persistTimers.delete(clientKey);
+  log.info("Forgot client", { clientKey });
+  void deleteClient(clientKey);
+}
+
+/**
+ * Applies the idle TTL, the per-session cell limit and the session cap, and
+ * forgets clients left with nothing to report.
+ */
+function sweepSessions(): void {
+  const now = Date.now();
+  const live: Array<[ClientState, NexsSession]> = [];
+  for (const state of clients.values()) {
+    for (const session of [...state.sessions.values()]) {
+      if (now - session.lastUsed > SESSION_IDLE_TTL_MS) evictSession(state, session, "idle");
+      else if (session.cellCache.size > MAX_SESSION_CELLS) evictSession(state, session, "too_large");
+      else live.push([state, session]);
     }
-  );
-  if (!resp.ok) {
-    const text = await resp.text().catch(() => "");
-    throw new Error(`NExS init failed (${resp.status}): ${text}`);
   }
-  const data = (await resp.json()) as {
-    session: string;
-    revision: number;
-    views: NexsView[];
-    values: NexsCellEntry[];
+  live.sort((a, b) => a[1].lastUsed - b[1].lastUsed);
+  for (const [state, session] of live.slice(0, Math.max(0, live.length - MAX_LIVE_SESSIONS))) {
+    evictSession(state, session, "capacity");
+  }
+  for (const [key, state] of clients) {
+    for (const [appUuid, note] of state.expired) {
+      if (now - note.at > EXPIRED_NOTE_TTL_MS) state.expired.delete(appUuid);
+    }
+    if (state.sessions.size === 0 && state.expired.size === 0) forgetClient(key);
+  }
+  clientLimiter.prune(now);
+  sessionLimiter.prune(now);
+}
+
+registerGauge("nexs_clients", "Clients with state in memory.", () => clients.size);
+registerGauge("nexs_live_sessions", "NExS sessions in memory across all clients.", () =>
+  [...clients.values()].reduce((n, state) => n + state.sessions.size, 0),
+);
+registerGauge("nexs_display_streams", "Open App View display streams.", () =>
+  [...displaySessions.values()].reduce((n, session) => n + session.displayStreams.size, 0),
+);
+
+let sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+function startSessionSweeper(): void {
+  sweepTimer ??= setInterval(sweepSessions, SESSION_SWEEP_INTERVAL_MS);
+  // Never keep the process alive just to sweep.
+  sweepTimer.unref();
+}
+
+function expiredSessionMessage(expired: ExpiredSession): string {
+  const why: Record<EvictionReason, string> = {
+    idle: `after ${Math.round(SESSION_IDLE_TTL_MS / 60_000)} minutes without use`,
+    capacity: `because the server reached its limit of ${MAX_LIVE_SESSIONS} live sessions`,
+    too_large: `because it exceeded the per-session limit of ${MAX_SESSION_CELLS} cells`,
+    purged: "by an administrator",
   };
+  return (
+    `The session for this spreadsheet was closed ${why[expired.reason]}. ` +
+    `Call render_nexs_spreadsheet with ${expired.appUrl} to load it again.`
+  );
+}
+
+/**
+ * The error a tool returns when resolveSession found nothing: "expired,
+ * re-render" if the client's active app was evicted, else "nothing loaded".
+ */
+async function noSessionResult(extra: ToolExtra): Promise<CallToolResult> {
+  const state = await loadClientState(extra);
+  const expired = state?.activeAppUuid ? state.expired.get(state.activeAppUuid) : undefined;
   return {
-    sessionId: data.session,
-    revision: data.revision,
-    views: data.views,
-    values: data.values,
+    isError: true,
+    content: [
+      {
+        type: "text",
+        text: expired
+          ? expiredSessionMessage(expired)
+          : "No NExS spreadsheet is loaded. Call render_nexs_spreadsheet first.",
+      },
+    ],
   };
 }
 
-interface NexsInteractResult {
+/** One live session, as reported by the admin endpoint. */
+export interface SessionSummary {
+  clientKey: string;
+  appUuid: string;
+  appUrl: string;
   revision: number;
-  values: NexsCellEntry[];
+  cells: number;
+  historyEntries: number;
+  snapshots: number;
+  idleSeconds: number;
+}
+
+/** Every session currently in memory (not ones only in the session store). */
+export function listSessions(): SessionSummary[] {
+  const now = Date.now();
+  return [...clients.entries()].flatMap(([clientKey, state]) =>
+    [...state.sessions.values()].map((s) => ({
+      clientKey,
+      appUuid: s.appUuid,
+      appUrl: s.appUrl,
+      revision: s.revision,
+      cells: s.cellCache.size,
+      historyEntries: s.history.undo.length + s.history.redo.length,
+      snapshots: s.snapshots.size,
+      idleSeconds: Math.round((now - s.lastUsed) / 1000),
+    })),
+  );
 }
 
 /**
- * POST /api/app/{uuid}/interact
- *
- * Operates on an existing session.  Returns only cells that changed since the
- * given revision (delta).  Pass inputs=[] for a read-only sync; pass
- * [[sheetname, celladdr, value], ...] to write cells.
+ * Evicts every in-memory session matching the filter (all of them when both
+ * are omitted) and returns how many were evicted.
  */
-async function nexsInteract(
-  appUuid: string,
-  sessionId: string,
-  revision: number,
-  inputs: [string, string, string | number][],
-): Promise<NexsInteractResult> {
-  const resp = await fetch(
-    `https://platform.nexs.com/api/app/${appUuid}/interact`,
-    {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ session: sessionId, revision, inputs }),
+export function purgeSessions({ clientKey, appUuid }: { clientKey?: string; appUuid?: string } = {}): number {
+  let purged = 0;
+  for (const [key, state] of clients) {
+    if (clientKey && key !== clientKey) continue;
+    for (const session of [...state.sessions.values()]) {
+      if (appUuid && session.appUuid !== appUuid.toLowerCase()) continue;
+      evictSession(state, session, "purged");
+      purged++;
     }
-  );
-  if (!resp.ok) {
-    const text = await resp.text().catch(() => "");
-    throw new Error(`NExS interact failed (${resp.status}): ${text}`);
   }
-  return resp.json() as Promise<NexsInteractResult>;
+  return purged;
 }
 
-function applyDelta(session: NexsSession, result: NexsInteractResult): void {
-  for (const [sn, ci] of result.values) {
-    session.cellCache.set(`${sn}!${ci.addr.toUpperCase()}`, { sheetName: sn, ci });
-  }
-  session.revision = result.revision;
+// ---------------------------------------------------------------------------
+// Rate limits
+//
+// Each client has a budget of tool calls and each live session a budget of
+// NExS calls, so a runaway agent loop is turned away with a retry-after error
+// before it reaches NExS.  Writes to one session are queued, so each names
+// the revision the previous one produced instead of racing it.  The cap on
+// concurrent NExS requests across the process lives in nexs-client.ts.
+// ---------------------------------------------------------------------------
+
+const clientLimiter = new RateLimiter(MAX_CLIENT_CALLS_PER_MINUTE);
+const sessionLimiter = new RateLimiter(MAX_SESSION_NEXS_CALLS_PER_MINUTE);
+
+function retryAfterText(ms: number): string {
+  return `Retry after ${Math.ceil(ms / 1000)} s.`;
 }
 
-function buildCellCache(values: NexsCellEntry[]): NexsSession["cellCache"] {
-  const cache: NexsSession["cellCache"] = new Map();
-  for (const [sn, ci] of values) {
-    cache.set(`${sn}!${ci.addr.toUpperCase()}`, { sheetName: sn, ci });
-  }
-  return cache;
+/** The error result for a tool call over its client's budget, or null to go ahead. */
+function throttleClient(extra: ToolExtra): CallToolResult | null {
+  const wait = clientLimiter.take(resolveClientKey(extra));
+  if (wait === 0) return null;
+  rateLimited.inc({ scope: "client" });
+  return {
+    isError: true,
+    content: [
+      {
+        type: "text",
+        text:
+          `Rate limit exceeded: at most ${MAX_CLIENT_CALLS_PER_MINUTE} tool calls per minute. ` +
+          retryAfterText(wait),
+      },
+    ],
+  };
+}
+
+/** The live session each fork was made from; forks spend their owner's budget. */
+const forkOwners = new WeakMap<NexsSession, NexsSession>();
+
+/**
+ * Spends one NExS call from `session`'s budget (its owner's, for a fork);
+ * throws ThrottledError when it is used up.  Every NExS call made on a live
+ * session's behalf goes through here: writes, resyncs, get_cell syncs and
+ * the forks behind diff, run_scenario, sweep_inputs and goal_seek.
+ */
+function throttleSession(session: NexsSession): void {
+  const owner = forkOwners.get(session) ?? session;
+  const wait = sessionLimiter.take(`${owner.clientKey}\n${owner.appUuid}`);
+  if (wait === 0) return;
+  rateLimited.inc({ scope: "session" });
+  throw new ThrottledError(
+    `Too many NExS calls for this spreadsheet: at most ${MAX_SESSION_NEXS_CALLS_PER_MINUTE} per minute. ` +
+      retryAfterText(wait),
+    wait,
+  );
+}
+
+/** Tail of each session's write queue (see queueWrite). */
+const writeQueues = new WeakMap<NexsSession, Promise<unknown>>();
+
+/** Runs `write` once every write queued on `session` before it has settled. */
+function queueWrite<T>(session: NexsSession, write: () => Promise<T>): Promise<T> {
+  const run = (writeQueues.get(session) ?? Promise.resolve()).then(write);
+  writeQueues.set(session, run.catch(() => {}));
+  return run;
 }
 
 // ---------------------------------------------------------------------------
-// MCP server
+// Resource subscriptions
+//
+// Cells are exposed as nexs://{appUuid}/sheets/{sheet} and
+// nexs://{appUuid}/cells/{sheet}!{addr}.  Clients that subscribe get
+// notifications/resources/updated whenever the cache changes underneath a
+// subscribed URI.  Subscriptions live as long as the McpServer instance that
+// received them: the stdio connection, or one Streamable HTTP session.
 // ---------------------------------------------------------------------------
 
-export function createServer(): McpServer {
-  const server = new McpServer({
-    name: "NExS Spreadsheet Viewer",
-    version: "1.0.0",
-  });
+const SHEET_RESOURCE_TEMPLATE = "nexs://{appUuid}/sheets/{sheet}";
+const CELL_RESOURCE_TEMPLATE = "nexs://{appUuid}/cells/{sheet}!{addr}";
 
-  // ---------------------------------------------------------------------------
-  // render_nexs_spreadsheet
-  // ---------------------------------------------------------------------------
-  registerAppTool(
-    server,
-    "render_nexs_spreadsheet",
-    {
-      title: "Render NExS Spreadsheet",
-      description:
-        "Displays a NExS spreadsheet as a live, interactive view in the conversation. " +
-        "Call this ONCE when the user first provides a NExS URL. " +
-        "NEVER call this again to read cell values — call get_cell for that. " +
-        "Re-calling this reloads the iframe and resets all user edits.",
-      inputSchema: {
-        app_url: z
-          .string()
-          .url()
-          .describe("A published NExS spreadsheet URL (https://platform.nexs.com/...)."),
-      },
-      outputSchema: {
-        app_url: z.string().url().describe("The NExS spreadsheet URL being rendered."),
-      },
-      _meta: { ui: { resourceUri: RESOURCE_URI } },
-    },
-    async ({ app_url }): Promise<CallToolResult> => {
-      lastSpreadsheetUrl = app_url;
+interface ResourceSubscriber {
+  /** Only sessions of this client notify the subscriber. */
+  clientKey: string;
+  server: Server;
+}
 
-      const appUuid = extractNexsUuid(app_url);
+/** Subscribers keyed by canonical resource URI. */
+const subscriptions = new Map<string, Set<ResourceSubscriber>>();
 
-      // If we already have a live session for this app, do NOT reset it.
-      // The model sometimes re-calls this tool on an already-loaded spreadsheet;
-      // re-running nexsInit would discard the iframe's real session values and
-      // reset user edits.  Return immediately — the browser side will also skip
+function sheetResourceUri(appUuid: string, sheetName: string): string {
+  return `nexs://${appUuid}/sheets/${encodeURIComponent(sheetName)}`;
+}
+
+function cellResourceUri(appUuid: string, sheetName: string, addr: string): string {
+  return `nexs://${appUuid}/cells/${encodeURIComponent(sheetName)}!${addr.toUpperCase()}`;
+}
+
+/**
+ * Normalises a sheet or cell resource URI (case, percent-encoding) so the
+ * subscription map and notifications agree on one spelling.  Null for any
+ * other URI.
+ */
+function canonicalResourceUri(uri: string): string | null {
+  const one = (v: string | string[]) => decodeURIComponent(Array.isArray(v) ? v[0] : v);
+  const cell = new UriTemplate(CELL_RESOURCE_TEMPLATE).match(uri);
+  if (cell) return cellResourceUri(one(cell.appUuid).toLowerCase(), one(cell.sheet), one(cell.addr));
+  const sheet = new UriTemplate(SHEET_RESOURCE_TEMPLATE).match(uri);
+  if (sheet) return sheetResourceUri(one(sheet.appUuid).toLowerCase(), one(sheet.sheet));
+  return null;
+}
+
+/**
+ * Sends notifications/resources/updated for the sheet and cell resources
+ * covering `keys` ("Sheet!ADDR") to this session's client's subscribers.
+ */
+function notifyCellsChanged(session: NexsSession, keys: Iterable<string>): void {
+  if (subscriptions.size === 0) return;
+  const uris = new Set<string>();
+  for (const key of keys) {
+    const { sheet, cell } = parseCellRef(key);
+    if (!sheet) continue;
+    uris.add(sheetResourceUri(session.appUuid, sheet));
+    uris.add(cellResourceUri(session.appUuid, sheet, cell));
+  }
+  for (const uri of uris) {
+    for (const sub of subscriptions.get(uri) ?? []) {
+      if (sub.clientKey !== session.clientKey) continue;
+      sub.server.sendResourceUpdated({ uri }).catch(() => {});
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Display push
+//
+// The App View keeps its NExS iframe in sync with model writes by forwarding
+// each written input as an {op:"input"} postMessage.  Over HTTP the View opens
+// a server-sent event stream (main.ts serves /display/{token}) and writes are
+// pushed the moment they land.  Where no stream is open (stdio, or a host
+// whose CSP blocks the connection) inputs queue on the session and the View
+// falls back to polling pop_nexs_display_inputs.
+// ---------------------------------------------------------------------------
+
+/** One input for the View to forward to the iframe. */
+interface DisplayInput {
+  viewIndex: number;
+  addr: string;
+  value: string | number;
+}
+
+/** Live sessions keyed by displayToken. */
+const displaySessions = new Map<string, NexsSession>();
+
+/**
+ * Attaches a display stream to the session owning `token`.  Inputs queued
+ * before the stream opened are delivered immediately.  Returns a detach
+ * function, or null for an unknown token.
+ */
+export function openDisplayStream(
+  token: string,
+  send: (inputs: DisplayInput[]) => void,
+): (() => void) | null {
+  const session = displaySessions.get(token);
+  if (!session) return null;
+  session.displayStreams.add(send);
+  if (session.pendingDisplayInputs.length > 0) {
+    const queued = session.pendingDisplayInputs;
+    session.pendingDisplayInputs = [];
+    send(queued);
+  }
+  return () => session.displayStreams.delete(send);
+}
+
+/** Pushes inputs to every open display stream, or queues them for polling. */
+function deliverDisplayInputs(session: NexsSession, inputs: DisplayInput[]): void {
+  if (inputs.length === 0) return;
+  if (session.displayStreams.size === 0) {
+    session.pendingDisplayInputs.push(...inputs);
+    return;
+  }
+  for (const send of session.displayStreams) send(inputs);
+}
+
+/**
+ * Public origin of this server as seen by the requesting host: PUBLIC_URL
+ * when set, otherwise the (forwarded) Host header.  Null over stdio, where
+ * there is no HTTP server to stream from.
+ */
+function publicOrigin(extra: ToolExtra): string | null {
+  if (process.env.PUBLIC_URL) return new URL(process.env.PUBLIC_URL).origin;
+  const headers = extra.requestInfo?.headers;
+  if (!headers) return null;
+  const first = (v: string | string[] | undefined) => (Array.isArray(v) ? v[0] : v)?.split(",")[0].trim();
+  const host = first(headers["x-forwarded-host"]) ?? first(headers.host);
+  if (!host) return null;
+  return `${first(headers["x-forwarded-proto"]) ?? "http"}://${host}`;
+}
+
+/** URL of the session's display stream, or null when push is unavailable. */
+function displayStreamUrl(extra: ToolExtra, session: NexsSession | null | undefined): string | null {
+  const origin = publicOrigin(extra);
+  return origin && session?.displayToken ? `${origin}/display/${session.displayToken}` : null;
+}
+
+// ---------------------------------------------------------------------------
+// NExS API helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Result `_meta` carrying the URL the View should load in its iframe: the app
+ * URL with the user's own NExS token in NEXS_EMBED_TOKEN_PARAM, so the embed
+ * can open private apps.  Kept out of structuredContent so the token never
+ * reaches the model.  Undefined when the user sent no token of their own or
+ * NExS embeds take none (the iframe then relies on the user's own NExS
+ * login); the shared NEXS_TOKEN is never put in a URL.
+ */
+function embedMeta(session: NexsSession | null | undefined): { "nexs/embedUrl": string } | undefined {
+  const param = process.env.NEXS_EMBED_TOKEN_PARAM;
+  if (!param || !session?.embedToken) return undefined;
+  const url = new URL(session.appUrl);
+  url.searchParams.set(param, session.embedToken);
+  return { "nexs/embedUrl": url.toString() };
+}
+
+function extractNexsUuid(url: string): string | null {
+  const m = url.match(
+    /\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})/i
+  );
+  return m ? m[1].toLowerCase() : null;
+}
+
+function parseCellRef(cellRef: string): { sheet: string | null; cell: string } {
+  const bangIdx = cellRef.lastIndexOf("!");
+  if (bangIdx !== -1) {
+    // Sheet names containing spaces are quoted in Excel notation: 'My Sheet'!A1
+    const sheet = cellRef.slice(0, bangIdx).replace(/^'(.*)'$/, "$1");
+    return { sheet, cell: cellRef.slice(bangIdx + 1) };
+  }
+  return { sheet: null, cell: cellRef };
+}
+
+/**
+ * Like parseCellRef, but substitutes a defined name ("TotalRevenue" or
+ * "Sheet1!TotalRevenue") with the sheet and address/range it refers to.
+ * `name` is set when a substitution happened so callers can report it.
+ */
+function resolveCellRef(
+  session: NexsSession,
+  cellRef: string,
+): { sheet: string | null; cell: string; name?: string } {
+  const parsed = parseCellRef(cellRef.trim());
+  if (parseRange(parsed.cell)) return parsed;
+  const named = session.names.get(parsed.cell.toUpperCase());
+  if (!named || (parsed.sheet && parsed.sheet !== named.sheetName)) return parsed;
+  return { sheet: named.sheetName, cell: named.range, name: named.name };
+}
+
+function buildNameTable(names: NexsName[] | undefined): NexsSession["names"] {
+  const table: NexsSession["names"] = new Map();
+  for (const n of names ?? []) {
+    if (n?.name && n.sheetName && n.range) {
+      const { cell } = parseCellRef(n.range);
+      table.set(n.name.toUpperCase(), { ...n, range: cell.replace(/\$/g, "").toUpperCase() });
+    }
+  }
+  return table;
+}
+
+interface NexsInitResult {
+  sessionId: string;
+  revision: number;
+  views: NexsView[];
+  names: NexsName[];
+  values: NexsCellEntry[];
+}
+
+/** What a NExS API call needs to know about the app it acts on. */
+type NexsTarget = Pick<NexsSession, "appUuid" | "appUrl" | "nexsToken">;
+
+/** The allowlisted origin hosting the target's app, where its API calls go. */
+function targetOrigin(target: NexsTarget): string {
+  const origin = allowedNexsOrigin(target.appUrl);
+  if (!origin) {
+    throw new NexsError(`${target.appUrl} is not on an allowed NExS origin (${nexsOrigins().join(", ")}).`);
+  }
+  return origin;
+}
+
+/**
+ * POST /api/app/{uuid}/init
+ *
+ * Creates a NExS session and returns all current cell values.
+ * The endpoint is csrf_exempt and works without cookies for public apps;
+ * private apps need the user's NExS token.
+ * The returned session UUID is the one used by the iframe for the lifetime of
+ * the conversation; get_cell / set_cell both operate on this same session.
+ */
+async function nexsInit(target: NexsTarget, signal?: AbortSignal): Promise<NexsInitResult> {
+  // Each init creates a fresh session, so a retried call only leaves an
+  // orphaned session behind on the NExS side.
+  const data = await nexsRequest<{
+    session: string;
+    revision: number;
+    views: NexsView[];
+    names?: NexsName[];
+    values: NexsCellEntry[];
+  }>(`/api/app/${target.appUuid}/init`, {}, "init", {
+    timeoutMs: NEXS_INIT_TIMEOUT_MS,
+    idempotent: true,
+    signal,
+    token: target.nexsToken,
+    origin: targetOrigin(target),
+  });
+  return {
+    sessionId: data.session,
+    revision: data.revision,
+    views: data.views,
+    names: data.names ?? [],
+    values: data.values,
+  };
+}
+
+interface NexsInteractResult {
+  revision: number;
+  values: NexsCellEntry[];
+}
+
+/**
+ * POST /api/app/{uuid}/interact
+ *
+ * Operates on an existing session.  Returns only cells that changed since the
+ * given revision (delta).  Pass inputs=[] for a read-only sync; pass
+ * [[sheetname, celladdr, value], ...] to write cells.
+ */
+async function nexsInteract(
+  target: NexsTarget & { sessionId: string },
+  revision: number,
+  inputs: [string, string, string | number][],
+  {
+    timeoutMs = NEXS_INTERACT_TIMEOUT_MS,
+    retries,
+    signal,
+  }: { timeoutMs?: number; retries?: number; signal?: AbortSignal } = {},
+): Promise<NexsInteractResult> {
+  return nexsRequest<NexsInteractResult>(
+    `/api/app/${target.appUuid}/interact`,
+    { session: target.sessionId, revision, inputs },
+    "interact",
+    // A sync without inputs only reads, so it is safe to retry.
+    {
+      timeoutMs,
+      retries,
+      idempotent: inputs.length === 0,
+      signal,
+      token: target.nexsToken,
+      origin: targetOrigin(target),
+    },
+  );
+}
+
+/**
+ * Turns a failed NExS call into a message telling the model what to do next.
+ */
+function describeNexsError(err: unknown): string {
+  if (err instanceof ThrottledError) return err.message;
+  if (err instanceof NexsSessionExpiredError) {
+    return "The NExS session has expired. Call render_nexs_spreadsheet again to start a new one.";
+  }
+  if (err instanceof NexsUnauthorizedError) {
+    return (
+      "Not authorized for this NExS app. It is private, and the NExS token for this request " +
+      "is missing or has no access to it. Ask the user to sign in with an account that can open it."
+    );
+  }
+  if (err instanceof NexsNotFoundError) {
+    return "NExS could not find this spreadsheet. Check that the URL points to a published NExS app.";
+  }
+  if (err instanceof NexsValidationError) {
+    return `${err.message}. Check the cell references and values, e.g. with describe_spreadsheet.`;
+  }
+  if (err instanceof NexsRateLimitError) {
+    const wait = err.retryAfterMs !== null ? `in ${Math.ceil(err.retryAfterMs / 1000)} s` : "shortly";
+    return `NExS is rate limiting requests. Try again ${wait}.`;
+  }
+  if (err instanceof NexsNetworkError) {
+    return `${err.message}. NExS may be unavailable; try again shortly.`;
+  }
+  if (err instanceof NexsError) return err.message;
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Writes a cell into the cache.  Deltas usually carry only the new value, so
+ * the formula and editability flag already known for the cell are kept
+ * unless the update supplies its own.
+ */
+function cacheCell(session: NexsSession, sheetName: string, ci: NexsCellInfo): void {
+  const key = `${sheetName}!${ci.addr.toUpperCase()}`;
+  const prev = session.cellCache.get(key)?.ci;
+  const merged: NexsCellInfo = { ...ci };
+  if (prev?.formula !== undefined && merged.formula === undefined) merged.formula = prev.formula;
+  if (prev?.editable !== undefined && merged.editable === undefined) merged.editable = prev.editable;
+  session.cellCache.set(key, { sheetName, ci: merged });
+}
+
+function applyDelta(session: NexsSession, result: NexsInteractResult): void {
+  for (const [sn, ci] of result.values) cacheCell(session, sn, ci);
+  session.revision = result.revision;
+  notifyCellsChanged(
+    session,
+    result.values.map(([sn, ci]) => `${sn}!${ci.addr.toUpperCase()}`),
+  );
+  persistClient(session.clientKey);
+  enforceCellLimit(session);
+}
+
+function buildCellCache(values: NexsCellEntry[]): NexsSession["cellCache"] {
+  const cache: NexsSession["cellCache"] = new Map();
+  for (const [sn, ci] of values) {
+    cache.set(`${sn}!${ci.addr.toUpperCase()}`, { sheetName: sn, ci });
+  }
+  return cache;
+}
+
+/**
+ * Picks the sheet a cell reference targets: the explicit `sheet` argument,
+ * then a "Sheet!" prefix, then the first visible view.
+ */
+function resolveSheetName(
+  session: NexsSession,
+  parsedSheet: string | null,
+  sheet: string | undefined,
+): string | null {
+  return (
+    sheet ??
+    parsedSheet ??
+    session.views.find((v) => !v.isInvisible)?.sheetName ??
+    null
+  );
+}
+
+/**
+ * Waits for the browser to relay the iframe's "initApp" postMessage.
+ * The iframe may start with a persistent session whose values differ from
+ * nexsInit() (e.g. user previously set quantities to 10, published values
+ * are 3 and 5).  update_nexs_cells sets seededFromBrowser = true once
+ * initApp arrives.  We wait up to 6 seconds; after that callers fall back to
+ * whatever is in the cache (nexsInit values at worst).
+ */
+async function waitForBrowserSeed(session: NexsSession): Promise<void> {
+  if (session.seededFromBrowser) return;
+  await new Promise<void>((resolve) => {
+    const deadline = Date.now() + 6000;
+    const poll = () => {
+      if (session.seededFromBrowser || Date.now() >= deadline) {
+        resolve();
+      } else {
+        setTimeout(poll, 200);
+      }
+    };
+    setTimeout(poll, 200);
+  });
+}
+
+/**
+ * Parses "A1:D20" into normalised corners.  A single address is treated as a
+ * one-cell range; reversed corners ("D20:A1") are swapped.
+ */
+function parseRange(
+  range: string,
+): { start: { col: number; row: number }; end: { col: number; row: number } } | null {
+  const [from, to = from, extraPart] = range.split(":");
+  if (extraPart !== undefined) return null;
+  const a = parseAddr(from);
+  const b = parseAddr(to);
+  if (!a || !b) return null;
+  return {
+    start: { col: Math.min(a.col, b.col), row: Math.min(a.row, b.row) },
+    end: { col: Math.max(a.col, b.col), row: Math.max(a.row, b.row) },
+  };
+}
+
+/** True when NExS reported a formula for the cell, i.e. it is a computed output. */
+function isFormulaCell(ci: NexsCellInfo): boolean {
+  return typeof ci.formula === "string" && ci.formula.length > 0;
+}
+
+/**
+ * True when the cell can be written with set_cell.  An explicit `editable`
+ * flag from the payload wins; otherwise any non-formula cell is an input.
+ */
+function isInputCell(ci: NexsCellInfo): boolean {
+  return typeof ci.editable === "boolean" ? ci.editable : !isFormulaCell(ci);
+}
+
+/** Orders addresses row-major (A1, B1, A2, ...), unparseable ones last. */
+function compareAddrs(a: string, b: string): number {
+  const pa = parseAddr(a);
+  const pb = parseAddr(b);
+  if (!pa || !pb) return pa ? -1 : pb ? 1 : a.localeCompare(b);
+  return pa.row - pb.row || pa.col - pb.col;
+}
+
+/** Why a write target was rejected, returned as structuredContent on the error. */
+interface WriteTargetError {
+  error: string;
+  code: "no_sheet" | "invalid_ref" | "unknown_sheet" | "outside_views" | "not_editable";
+  cell: string;
+  /** Input cells closest to the target, as "Sheet!ADDR". */
+  nearbyInputs: string[];
+}
+
+/**
+ * Resolves the sheet and normalised address a write should target, or a
+ * structured error explaining why the reference can't be written.
+ *
+ * Writes are checked against what the cache knows before any network call:
+ * the sheet must exist, the address must lie inside one of its views, and a
+ * cached cell must be an input.  Cells missing from the cache but inside a
+ * view are allowed — blank input cells are often absent from initApp.
+ */
+function resolveWriteTarget(
+  session: NexsSession,
+  cellRef: string,
+  sheet: string | undefined,
+): { sheetName: string; addr: string } | WriteTargetError {
+  const { sheet: parsedSheet, cell: cellAddr, name } = resolveCellRef(session, cellRef);
+  const sheetName = resolveSheetName(session, parsedSheet, sheet);
+  if (!sheetName) {
+    return {
+      error: "Cannot determine sheet name. Provide 'sheet' or use 'Sheet1!A1' notation.",
+      code: "no_sheet",
+      cell: cellRef,
+      nearbyInputs: [],
+    };
+  }
+  const pos = parseAddr(cellAddr);
+  if (!pos) {
+    return {
+      error: name
+        ? `'${name}' refers to the range ${sheetName}!${cellAddr}; write its cells individually.`
+        : `'${cellRef}' is not a valid cell address or defined name. Call list_names to see names.`,
+      code: "invalid_ref",
+      cell: cellRef,
+      nearbyInputs: [],
+    };
+  }
+  const addr = cellAddr.trim().replace(/\$/g, "").toUpperCase();
+  const qualified = `${sheetName}!${addr}`;
+
+  const knownSheets = new Set(session.views.map((v) => v.sheetName));
+  for (const { sheetName: sn } of session.cellCache.values()) knownSheets.add(sn);
+  if (knownSheets.size > 0 && !knownSheets.has(sheetName)) {
+    return {
+      error: `Sheet '${sheetName}' does not exist. Known sheets: ${[...knownSheets].join(", ")}.`,
+      code: "unknown_sheet",
+      cell: qualified,
+      nearbyInputs: [],
+    };
+  }
+
+  const cached = session.cellCache.get(qualified);
+  if (cached && !isInputCell(cached.ci)) {
+    const nearby = nearbyInputCells(session, sheetName, pos);
+    return {
+      error:
+        `${qualified} is a formula output${cached.ci.formula ? ` (${cached.ci.formula})` : ""} ` +
+        `and cannot be written. Nearby input cells: ${nearby.join(", ") || "none known"}.`,
+      code: "not_editable",
+      cell: qualified,
+      nearbyInputs: nearby,
+    };
+  }
+
+  if (!cached) {
+    const ranges = session.views
+      .filter((v) => v.sheetName === sheetName)
+      .map((v) => parseRange(parseCellRef(v.range).cell))
+      .filter((r) => r !== null);
+    const inside = ranges.some(
+      (r) =>
+        pos.col >= r.start.col && pos.col <= r.end.col &&
+        pos.row >= r.start.row && pos.row <= r.end.row
+    );
+    if (ranges.length > 0 && !inside) {
+      const nearby = nearbyInputCells(session, sheetName, pos);
+      return {
+        error:
+          `${qualified} is outside every view of the spreadsheet, so it does not exist. ` +
+          `Nearby input cells: ${nearby.join(", ") || "none known"}.`,
+        code: "outside_views",
+        cell: qualified,
+        nearbyInputs: nearby,
+      };
+    }
+  }
+
+  return { sheetName, addr };
+}
+
+/** Up to 10 cached input cells on `sheetName`, closest to `pos` first. */
+function nearbyInputCells(
+  session: NexsSession,
+  sheetName: string,
+  pos: { col: number; row: number },
+): string[] {
+  const candidates: Array<{ addr: string; dist: number }> = [];
+  for (const { sheetName: sn, ci } of session.cellCache.values()) {
+    if (sn !== sheetName || !isInputCell(ci)) continue;
+    const p = parseAddr(ci.addr);
+    if (!p) continue;
+    candidates.push({
+      addr: `${sn}!${ci.addr.toUpperCase()}`,
+      dist: Math.abs(p.col - pos.col) + Math.abs(p.row - pos.row),
+    });
+  }
+  return candidates
+    .sort((a, b) => a.dist - b.dist)
+    .slice(0, 10)
+    .map((c) => c.addr);
+}
+
+/** Wraps a rejected write target as an isError tool result. */
+function writeTargetErrorResult(target: WriteTargetError): CallToolResult {
+  return {
+    isError: true,
+    content: [{ type: "text", text: target.error }],
+    structuredContent: { ...target },
+  };
+}
+
+/**
+ * viewIndex is needed by the browser to forward an input to the iframe.
+ * Find the view whose sheetName matches; fall back to the first visible view.
+ */
+function viewIndexForSheet(session: NexsSession, sheetName: string): number {
+  const idx = session.views.findIndex((v) => v.sheetName === sheetName);
+  if (idx !== -1) return idx;
+  const vis = session.views.findIndex((v) => !v.isInvisible);
+  return vis !== -1 ? vis : 0;
+}
+
+/** Converts interact delta entries to the `changed` shape tools return. */
+function toChangedCells(values: NexsCellEntry[]) {
+  return values.map(([sn, ci]) => ({
+    sheet: sn,
+    addr: ci.addr,
+    value: ci.data,
+    text: ci.text,
+    datatype: ci.datatype as "numeric" | "string" | "error" | "n/a",
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Live writes
+// ---------------------------------------------------------------------------
+
+/** One input to write: target cell and the value to put there. */
+interface CellWrite {
+  sheetName: string;
+  addr: string;
+  value: string | number;
+}
+
+/**
+ * Writes inputs to the live session in a single interact call, folds the
+ * recalculated delta into the cache, and queues the inputs for the iframe.
+ * This is the one path every tool that changes the user's spreadsheet goes
+ * through.  Throws if NExS rejects the write; nothing is queued in that case.
+ *
+ * The write is recorded in the history, and on the undo stack unless `record`
+ * is false (undo and redo manage the stacks themselves).
+ *
+ * If NExS rejects the write because the session moved on (user edits in the
+ * iframe) or expired, the session is resynced once and the write replayed;
+ * `resync` reports which happened.
+ *
+ * Each write spends from the session's rate limit (throwing ThrottledError
+ * when it is used up) and waits for earlier writes to the same session.
+ */
+async function writeLiveCells(
+  session: NexsSession,
+  writes: CellWrite[],
+  options: { record?: boolean; signal?: AbortSignal } = {},
+) {
+  throttleSession(session);
+  return queueWrite(session, () => writeLiveCellsNow(session, writes, options));
+}
+
+async function writeLiveCellsNow(
+  session: NexsSession,
+  writes: CellWrite[],
+  { record = true, signal }: { record?: boolean; signal?: AbortSignal },
+) {
+  const previous = writes.map((w) => ({
+    ...w,
+    value: session.cellCache.get(`${w.sheetName}!${w.addr}`)?.ci.data ?? "",
+  }));
+
+  const interact = () =>
+    nexsInteract(
+      session,
+      session.revision,
+      writes.map((w) => [w.sheetName, w.addr, w.value]),
+      { signal },
+    );
+  let resync: ResyncReason | null = null;
+  let result: NexsInteractResult;
+  try {
+    result = await interact();
+  } catch (err) {
+    if (err instanceof NexsRevisionConflictError) resync = "stale_revision";
+    else if (err instanceof NexsSessionExpiredError) resync = "session_expired";
+    else throw err;
+    log.warn("Write rejected; resyncing and replaying", { reason: resync, error: err.message });
+    await resyncSession(session, resync, signal);
+    throttleSession(session);
+    result = await interact();
+  }
+  applyDelta(session, result);
+
+  // A cell recalculated more than once in the delta keeps its last value.
+  const merged = new Map<string, ReturnType<typeof toChangedCells>[number]>();
+  for (const c of toChangedCells(result.values)) {
+    merged.set(`${c.sheet}!${c.addr.toUpperCase()}`, c);
+  }
+
+  // Push the inputs to the App View so it can forward each one to the NExS
+  // iframe, keeping the live display in sync with what the AI wrote even if
+  // ontoolresult doesn't fire.
+  const inputs = writes.map((w) => ({
+    viewIndex: viewIndexForSheet(session, w.sheetName),
+    addr: w.addr,
+    value: w.value,
+  }));
+  deliverDisplayInputs(session, inputs);
+
+  recordHistory(session, "ai", writes, previous, record);
+
+  return { revision: result.revision, changed: [...merged.values()], inputs, resync };
+}
+
+/** Why writeLiveCells had to resync before its write went through. */
+type ResyncReason = "stale_revision" | "session_expired";
+
+/**
+ * Brings `session` back in step with NExS.  A stale revision is fixed by a
+ * revision-0 interact, which returns every cell at the latest revision.  An
+ * expired session is replaced by a fresh init, onto which the input values
+ * the old session held are replayed.
+ */
+async function resyncSession(
+  session: NexsSession,
+  reason: ResyncReason,
+  signal?: AbortSignal,
+): Promise<void> {
+  throttleSession(session);
+  if (reason === "stale_revision") {
+    applyDelta(session, await nexsInteract(session, 0, [], { signal }));
+    return;
+  }
+  const init = await nexsInit(session, signal);
+  const published = buildCellCache(init.values);
+  const replay = divergentInputs(session.cellCache, published);
+  session.sessionId = init.sessionId;
+  session.revision = init.revision;
+  session.views = init.views;
+  if (init.names.length > 0) session.names = buildNameTable(init.names);
+  session.published = published;
+  for (const [sn, ci] of init.values) cacheCell(session, sn, ci);
+  if (replay.length > 0) {
+    throttleSession(session);
+    applyDelta(
+      session,
+      await nexsInteract(session, session.revision, replay, { signal }),
+    );
+  }
+  // The new session numbers its revisions afresh; older ones can't be rebuilt.
+  session.history.log = [];
+  session.history.loggedSince = session.revision;
+}
+
+/** Text appended to a write result when writeLiveCells had to resync. */
+function resyncNote(resync: ResyncReason | null): string {
+  if (resync === "stale_revision") {
+    return (
+      "\nNote: the spreadsheet had changed since the last sync (likely edits in the view); " +
+      "resynced to the latest revision before writing."
+    );
+  }
+  if (resync === "session_expired") {
+    return (
+      "\nNote: the NExS session had expired; started a new one, restored the previous " +
+      "input values and then wrote. The live view may keep showing the old session until reloaded."
+    );
+  }
+  return "";
+}
+
+// ---------------------------------------------------------------------------
+// Change history
+// ---------------------------------------------------------------------------
+
+/**
+ * Appends a change to the revision log and, when `undoable`, to the undo
+ * stack, invalidating redo.
+ */
+function recordHistory(
+  session: NexsSession,
+  source: HistoryEntry["source"],
+  inputs: CellWrite[],
+  previous: CellWrite[],
+  undoable = true,
+): void {
+  if (inputs.length === 0) return;
+  const { history } = session;
+  const entry: HistoryEntry = { revision: session.revision, source, at: Date.now(), inputs, previous };
+  history.log.push(entry);
+  if (history.log.length > MAX_HISTORY_ENTRIES) history.loggedSince = history.log.shift()!.revision;
+  if (undoable) {
+    history.undo.push(entry);
+    if (history.undo.length > MAX_HISTORY_ENTRIES) history.undo.shift();
+    history.redo = [];
+  }
+  persistClient(session.clientKey);
+}
+
+/** Every cached input cell's current value. */
+function currentInputs(session: NexsSession): CellWrite[] {
+  const inputs: CellWrite[] = [];
+  for (const { sheetName, ci } of session.cellCache.values()) {
+    if (isInputCell(ci)) inputs.push({ sheetName, addr: ci.addr.toUpperCase(), value: ci.data });
+  }
+  return inputs;
+}
+
+/**
+ * Reconstructs the writes that take the live inputs back to how they were at
+ * `revision`, by reverting every recorded change made after it, newest first.
+ * Returns null when the history doesn't reach back that far.
+ */
+function inputsAtRevision(session: NexsSession, revision: number): CellWrite[] | null {
+  const { log, loggedSince } = session.history;
+  if (revision > session.revision || revision < loggedSince) return null;
+  const reverted = new Map<string, CellWrite>();
+  for (let i = log.length - 1; i >= 0 && log[i].revision > revision; i--) {
+    for (const w of log[i].previous) reverted.set(`${w.sheetName}!${w.addr}`, w);
+  }
+  return [...reverted.values()];
+}
+
+/** One cell that differs between two cache states. */
+interface CellChange {
+  cell: string;
+  before: string | null;
+  after: string | null;
+  beforeValue: string | number | null;
+  afterValue: string | number | null;
+  /** after − before when both are numeric, else null. */
+  delta: number | null;
+}
+
+/**
+ * after − before when both are numeric, else null.  Rounded to 12 significant
+ * digits of the larger value: anything finer is binary floating-point noise
+ * (0.3 − 0.29 → 0.010000000000000009).
+ */
+function numericDelta(after: unknown, before: unknown): number | null {
+  if (typeof after !== "number" || typeof before !== "number") return null;
+  const scale = Math.max(Math.abs(after), Math.abs(before));
+  if (scale === 0) return 0;
+  const places = Math.max(0, 11 - Math.floor(Math.log10(scale)));
+  return parseFloat((after - before).toFixed(Math.min(places, 100)));
+}
+
+/**
+ * Compares two cache states cell by cell and splits the differences into
+ * input and output changes (by the editability of whichever side knows the
+ * cell).  Sorted by sheet, then row-major address.
+ */
+function diffCaches(
+  before: NexsSession["cellCache"],
+  after: NexsSession["cellCache"],
+): { inputs: CellChange[]; outputs: CellChange[] } {
+  const inputs: CellChange[] = [];
+  const outputs: CellChange[] = [];
+  for (const key of new Set([...before.keys(), ...after.keys()])) {
+    const b = before.get(key)?.ci;
+    const a = after.get(key)?.ci;
+    if (b && a && b.data === a.data && b.text === a.text) continue;
+    // A cell only one side knows about and that is blank on the other is not
+    // a change — the iframe simply omits empty cells.
+    if (!b && a && a.text === "") continue;
+    if (!a && b && b.text === "") continue;
+    const change: CellChange = {
+      cell: key,
+      before: b?.text ?? null,
+      after: a?.text ?? null,
+      beforeValue: b?.data ?? null,
+      afterValue: a?.data ?? null,
+      delta: numericDelta(a?.data, b?.data),
+    };
+    (isInputCell((a ?? b)!) ? inputs : outputs).push(change);
+  }
+  const order = (x: CellChange, y: CellChange) => {
+    const px = parseCellRef(x.cell);
+    const py = parseCellRef(y.cell);
+    return (px.sheet ?? "").localeCompare(py.sheet ?? "") || compareAddrs(px.cell, py.cell);
+  };
+  return { inputs: inputs.sort(order), outputs: outputs.sort(order) };
+}
+
+// ---------------------------------------------------------------------------
+// Forked sessions — what-if evaluation without touching the live view.
+// ---------------------------------------------------------------------------
+
+/**
+ * Input cells of `cache` whose value differs from `published`, as interact
+ * inputs that bring a fresh session to the same state.  A cell `published`
+ * has no entry for was blank there.
+ */
+function divergentInputs(
+  cache: NexsSession["cellCache"],
+  published: NexsSession["cellCache"],
+): [string, string, string | number][] {
+  const replay: [string, string, string | number][] = [];
+  for (const { sheetName, ci } of cache.values()) {
+    if (!isInputCell(ci)) continue;
+    const base = published.get(`${sheetName}!${ci.addr.toUpperCase()}`)?.ci;
+    if ((base?.data ?? "") !== ci.data) replay.push([sheetName, ci.addr.toUpperCase(), ci.data]);
+  }
+  return replay;
+}
+
+/**
+ * Creates a private NExS session for the same app and brings it to the live
+ * session's current state by replaying every input cell whose live value
+ * differs from the published default.
+ *
+ * The fork is a plain NexsSession object that is never registered with a
+ * client, so nothing the fork does can reach the live session, its cellCache
+ * or its App View.
+ */
+async function forkSession(live: NexsSession, signal?: AbortSignal): Promise<NexsSession> {
+  throttleSession(live);
+  const init = await nexsInit(live, signal);
+  const fork: NexsSession = {
+    clientKey: "",
+    appUuid: live.appUuid,
+    appUrl: live.appUrl,
+    sessionId: init.sessionId,
+    revision: init.revision,
+    views: init.views,
+    names: live.names,
+    cellCache: buildCellCache(init.values),
+    published: buildCellCache(init.values),
+    seededFromBrowser: true,
+    pendingDisplayInputs: [],
+    displayToken: "",
+    displayStreams: new Set(),
+    history: { undo: [], redo: [], log: [], loggedSince: 0 },
+    snapshots: new Map(),
+    lastUsed: Date.now(),
+    nexsToken: live.nexsToken,
+    embedToken: null,
+  };
+  forkOwners.set(fork, live);
+
+  const replay = divergentInputs(live.cellCache, fork.cellCache);
+  if (replay.length > 0) {
+    throttleSession(fork);
+    applyDelta(fork, await nexsInteract(fork, fork.revision, replay, { signal }));
+  }
+  return fork;
+}
+
+/** Writes inputs into a forked session and folds the recalculated delta into its cache. */
+async function evaluateInFork(
+  fork: NexsSession,
+  inputs: CellWrite[],
+  signal?: AbortSignal,
+): Promise<void> {
+  throttleSession(fork);
+  const result = await nexsInteract(
+    fork,
+    fork.revision,
+    inputs.map((i) => [i.sheetName, i.addr, i.value]),
+    { signal },
+  );
+  applyDelta(fork, result);
+}
+
+/**
+ * Expands a sweep axis into the values to try: an explicit list, or an
+ * inclusive start/stop/step range.
+ */
+function expandSweepValues(axis: {
+  values?: Array<string | number>;
+  start?: number;
+  stop?: number;
+  step?: number;
+}): { values: Array<string | number> } | { error: string } {
+  if (axis.values) {
+    return axis.values.length > 0 ? { values: axis.values } : { error: "values is empty." };
+  }
+  const { start, stop, step } = axis;
+  if (start === undefined || stop === undefined || step === undefined) {
+    return { error: "Provide either values or all of start, stop and step." };
+  }
+  if (step === 0 || Math.sign(stop - start) * Math.sign(step) < 0) {
+    return { error: `step ${step} never reaches ${stop} from ${start}.` };
+  }
+  const count = Math.floor((stop - start) / step + 1e-9) + 1;
+  if (count > MAX_SWEEP_POINTS) {
+    return { error: `the range has ${count} values; the limit is ${MAX_SWEEP_POINTS}.` };
+  }
+  // Round away binary floating-point noise (0.1 + 0.2 → 0.3).
+  return {
+    values: Array.from({ length: count }, (_, i) => parseFloat((start + i * step).toPrecision(12))),
+  };
+}
+
+/**
+ * Resolves output cell references (addresses or defined names) against the
+ * live session, for tools that read the same cells from a fork.
+ */
+function resolveOutputRefs(
+  session: NexsSession,
+  refs: string[],
+): { cells: Array<{ ref: string; key: string }> } | { error: string } {
+  const cells: Array<{ ref: string; key: string }> = [];
+  for (const ref of refs) {
+    const { sheet, cell } = resolveCellRef(session, ref);
+    const sheetName = resolveSheetName(session, sheet, undefined);
+    if (!sheetName || !parseAddr(cell)) {
+      return { error: `Output '${ref}' is not a single cell address or defined name.` };
+    }
+    cells.push({ ref, key: `${sheetName}!${cell.replace(/\$/g, "").toUpperCase()}` });
+  }
+  return { cells };
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+const EXPORT_FORMATS = ["csv", "json", "xlsx"] as const;
+type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv",
+  json: "application/json",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+/**
+ * Groups the cache by sheet, views' sheets first in view order, for the
+ * exporters in export.ts.  `onlySheet` limits the result to one sheet.
+ */
+function collectExportSheets(session: NexsSession, onlySheet?: string): ExportSheet[] {
+  const bySheet = new Map<string, ExportSheet>();
+  for (const v of session.views) {
+    if (!bySheet.has(v.sheetName)) bySheet.set(v.sheetName, { name: v.sheetName, cells: [] });
+  }
+  for (const { sheetName, ci } of session.cellCache.values()) {
+    let sheet = bySheet.get(sheetName);
+    if (!sheet) bySheet.set(sheetName, (sheet = { name: sheetName, cells: [] }));
+    sheet.cells.push(ci);
+  }
+  const sheets = [...bySheet.values()].filter((sh) => sh.cells.length > 0);
+  return onlySheet ? sheets.filter((sh) => sh.name === onlySheet) : sheets;
+}
+
+/**
+ * Serialises the session's cells as MCP resource contents: one CSV document
+ * per sheet, or a single JSON / XLSX document covering every sheet.
+ * Throws if a sheet is too large to lay out (see MAX_EXPORT_GRID_CELLS).
+ */
+function renderExport(
+  session: NexsSession,
+  format: ExportFormat,
+  options: ExportOptions,
+  onlySheet?: string,
+): Array<{ uri: string; mimeType: string; text: string } | { uri: string; mimeType: string; blob: string }> {
+  const sheets = collectExportSheets(session, onlySheet);
+  const base = `nexs://${session.appUuid}/export`;
+  const mimeType = EXPORT_MIME_TYPES[format];
+  const suffix = onlySheet ? `/${encodeURIComponent(onlySheet)}` : "";
+  if (format === "csv") {
+    return sheets.map((sheet) => ({
+      uri: `${base}/csv/${encodeURIComponent(sheet.name)}`,
+      mimeType,
+      text: sheetToCsv(sheet, options),
+    }));
+  }
+  if (format === "json") {
+    return [
+      {
+        uri: `${base}/json${suffix}`,
+        mimeType,
+        text: sheetsToJson(sheets, options, {
+          app_url: session.appUrl,
+          revision: session.revision,
+          exportedAt: new Date().toISOString(),
+        }),
+      },
+    ];
+  }
+  return [{ uri: `${base}/xlsx${suffix}`, mimeType, blob: sheetsToXlsx(sheets, options).toString("base64") }];
+}
+
+// ---------------------------------------------------------------------------
+// MCP server
+// ---------------------------------------------------------------------------
+
+const MCP_LOG_LEVELS: Record<LogLevel, LoggingLevel> = {
+  debug: "debug",
+  info: "info",
+  warn: "warning",
+  error: "error",
+};
+
+/**
+ * Minimum level each client asked for with logging/setLevel.  Kept here, not
+ * on the McpServer, so an authenticated client keeps it across sessions.
+ */
+const clientLogLevels = new Map<string, LoggingLevel>();
+
+/**
+ * Forwards a tool call's log entries to its client as notifications/message.
+ * Entries about another client's sessions (they carry its clientKey) are
+ * never forwarded.
+ */
+function forwardLogs(extra: ToolExtra): (entry: LogEntry) => void {
+  const clientKey = resolveClientKey(extra);
+  const minimum = clientLogLevels.get(clientKey) ?? "info";
+  return (entry) => {
+    if (entry.clientKey !== undefined && entry.clientKey !== clientKey) return;
+    const level = MCP_LOG_LEVELS[entry.level];
+    if (LoggingLevelSchema.options.indexOf(level) < LoggingLevelSchema.options.indexOf(minimum)) return;
+    // Related to the tool call, so it travels on that request's stream.
+    extra
+      .sendNotification({ method: "notifications/message", params: { level, logger: "nexs", data: entry } })
+      .catch(() => {});
+  };
+}
+
+/** How a tool callback is instrumented (see runTool). */
+interface InstrumentOptions {
+  /**
+   * Tools only the App View calls (e.g. its once-a-second display poll) do
+   * not spend the client's tool-call budget.
+   */
+  appOnly?: boolean;
+}
+
+/**
+ * Runs one tool call held to the client's rate limit, counted and timed for
+ * /metrics, and in a log context whose request ID follows it into the NExS
+ * API.
+ */
+async function runTool(
+  name: string,
+  extra: ToolExtra,
+  { appOnly = false }: InstrumentOptions,
+  call: () => Promise<CallToolResult>,
+): Promise<CallToolResult> {
+  const requestId = currentLogContext()?.requestId ?? newRequestId();
+  const context = { requestId, tool: name, forward: forwardLogs(extra) };
+  return withLogContext(context, async () => {
+    const start = performance.now();
+    let outcome = "exception";
+    try {
+      const throttled = appOnly ? null : throttleClient(extra);
+      if (throttled) {
+        outcome = "throttled";
+        return throttled;
+      }
+      const result = await call();
+      outcome = result.isError ? "error" : "ok";
+      return result;
+    } finally {
+      const seconds = (performance.now() - start) / 1000;
+      toolCalls.inc({ tool: name, outcome });
+      toolDuration.observe({ tool: name }, seconds);
+      log.debug("Tool call finished", { outcome, ms: Math.round(seconds * 1000) });
+    }
+  });
+}
+
+/** Wraps the callback of tool `name` in runTool.  Every tool registration goes through this. */
+function instrumented<Args>(
+  name: string,
+  cb: (args: Args, extra: ToolExtra) => Promise<CallToolResult>,
+  options: InstrumentOptions = {},
+): (args: Args, extra: ToolExtra) => Promise<CallToolResult> {
+  return (args, extra) => runTool(name, extra, options, () => cb(args, extra));
+}
+
+/** instrumented() for tools without an input schema, whose callback only gets the extra. */
+function instrumentedWithoutArgs(
+  name: string,
+  cb: (extra: ToolExtra) => Promise<CallToolResult>,
+  options: InstrumentOptions = {},
+): (extra: ToolExtra) => Promise<CallToolResult> {
+  return (extra) => runTool(name, extra, options, () => cb(extra));
+}
+
+export function createServer(): McpServer {
+  const server = new McpServer(
+    {
+      name: "NExS Spreadsheet Viewer",
+      version: "1.0.0",
+    },
+    { capabilities: { resources: { subscribe: true }, logging: {} } },
+  );
+  startSessionSweeper();
+
+  // ---------------------------------------------------------------------------
+  // render_nexs_spreadsheet
+  // ---------------------------------------------------------------------------
+  registerAppTool(
+    server,
+    "render_nexs_spreadsheet",
+    {
+      title: "Render NExS Spreadsheet",
+      description:
+        "Displays a NExS spreadsheet as a live, interactive view in the conversation. " +
+        "Call this ONCE when the user first provides a NExS URL. " +
+        "NEVER call this again to read cell values — call get_cell for that. " +
+        "Re-calling this reloads the iframe and resets all user edits.",
+      inputSchema: {
+        app_url: z
+          .string()
+          .url()
+          .describe(`A NExS spreadsheet URL (${nexsOrigins().map((o) => `${o}/...`).join(" or ")}).`),
+      },
+      outputSchema: {
+        app_url: z.string().url().describe("The NExS spreadsheet URL being rendered."),
+        display_stream_url: z
+          .string()
+          .url()
+          .nullable()
+          .describe("Server-sent event stream of model writes for the App View, or null to poll."),
+      },
+      _meta: { ui: { resourceUri: RESOURCE_URI } },
+    },
+    instrumented("render_nexs_spreadsheet", async ({ app_url }, extra): Promise<CallToolResult> => {
+      if (!allowedNexsOrigin(app_url)) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text:
+                `${app_url} is not on an allowed NExS origin. ` +
+                `This server only renders apps from ${nexsOrigins().join(", ")}.`,
+            },
+          ],
+        };
+      }
+      const client = await getClientState(extra);
+      client.lastSpreadsheetUrl = app_url;
+
+      const appUuid = extractNexsUuid(app_url);
+      if (appUuid) client.activeAppUuid = appUuid;
+      persistClient(resolveClientKey(extra));
+
+      // If we already have a live session for this app, do NOT reset it.
+      // The model sometimes re-calls this tool on an already-loaded spreadsheet;
+      // re-running nexsInit would discard the iframe's real session values and
+      // reset user edits.  Return immediately — the browser side will also skip
       // remounting the iframe when it sees the URL hasn't changed.
-      if (appUuid && nexsSession?.appUuid === appUuid) {
-        console.error("[NExS] render called for already-loaded app — preserving session");
+      const loaded = appUuid ? await resolveSession(extra, app_url) : null;
+      if (loaded) {
+        log.info("render called for already-loaded app; preserving session", { appUuid });
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                `Spreadsheet already loaded (${app_url}).\n` +
+                `Use get_cell to read values and set_cell to write them.`,
+            },
+          ],
+          structuredContent: {
+            app_url,
+            display_stream_url: displayStreamUrl(extra, loaded),
+          },
+          _meta: embedMeta(loaded),
+        };
+      }
+
+      // New URL (or first call): initialise the server-side NExS session.
+      // Always register the session first (even if nexsInit fails below) so
+      // that the browser's update_nexs_cells relay can still populate the cache
+      // from the iframe's initApp/updateCellMap postMessages.
+      if (appUuid) {
+        const nexsSession: NexsSession = {
+          clientKey: resolveClientKey(extra),
+          appUuid,
+          appUrl: app_url,
+          sessionId: "",
+          revision: 0,
+          views: [],
+          names: new Map(),
+          cellCache: new Map(),
+          published: null,
+          seededFromBrowser: false,
+          pendingDisplayInputs: [],
+          displayToken: randomUUID(),
+          displayStreams: new Set(),
+          history: { undo: [], redo: [], log: [], loggedSince: 0 },
+          snapshots: new Map(),
+          lastUsed: Date.now(),
+          nexsToken: resolveNexsToken(extra),
+          embedToken: userNexsToken(extra),
+        };
+        client.sessions.set(appUuid, nexsSession);
+        client.expired.delete(appUuid);
+        displaySessions.set(nexsSession.displayToken, nexsSession);
+        // Make room under MAX_LIVE_SESSIONS before this one counts.  The
+        // sweep touches every client's sessions, so its entries stay out of
+        // this caller's forwarded logs.
+        withLogContext({ requestId: currentLogContext()?.requestId ?? newRequestId() }, sweepSessions);
+        try {
+          const init = await nexsInit(nexsSession);
+          nexsSession.sessionId = init.sessionId;
+          nexsSession.revision = init.revision;
+          nexsSession.views = init.views;
+          nexsSession.names = buildNameTable(init.names);
+          nexsSession.cellCache = buildCellCache(init.values);
+          nexsSession.published = buildCellCache(init.values);
+        } catch (err) {
+          // Without access the iframe cannot load the app either; fail loudly.
+          if (err instanceof NexsUnauthorizedError) {
+            client.sessions.delete(appUuid);
+            displaySessions.delete(nexsSession.displayToken);
+            persistClient(nexsSession.clientKey);
+            return { isError: true, content: [{ type: "text", text: describeNexsError(err) }] };
+          }
+          // Non-fatal: the session exists so browser relay will still work;
+          // get_cell will wait for seededFromBrowser before reading the cache.
+          log.warn("Session init failed; browser relay will seed the cache", { appUuid, err });
+        }
+        if (nexsSession.cellCache.size > MAX_SESSION_CELLS) {
+          evictSession(client, nexsSession, "too_large");
+          return {
+            isError: true,
+            content: [
+              {
+                type: "text",
+                text:
+                  `This spreadsheet has ${nexsSession.cellCache.size} cells, more than this server's ` +
+                  `limit of ${MAX_SESSION_CELLS} per session (MAX_SESSION_CELLS).`,
+              },
+            ],
+          };
+        }
+      }
+      persistClient(resolveClientKey(extra));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              `Rendering NExS spreadsheet: ${app_url}\n` +
+              `Session ready. Use get_cell to read values and set_cell to write them.`,
+          },
+        ],
+        structuredContent: {
+          app_url,
+          display_stream_url: displayStreamUrl(extra, appUuid ? client.sessions.get(appUuid) : null),
+        },
+        _meta: embedMeta(appUuid ? client.sessions.get(appUuid) : null),
+      };
+    }),
+  );
+
+  // ---------------------------------------------------------------------------
+  // restore_nexs_spreadsheet — internal, App View only.
+  // ---------------------------------------------------------------------------
+  registerAppTool(
+    server,
+    "restore_nexs_spreadsheet",
+    {
+      description: "Returns the last-rendered NExS spreadsheet URL for refresh recovery.",
+      outputSchema: {
+        app_url: z.string().url().nullable().describe("Last spreadsheet URL, or null."),
+        display_stream_url: z
+          .string()
+          .url()
+          .nullable()
+          .describe("Display stream for that spreadsheet, or null to poll."),
+      },
+      _meta: { ui: { resourceUri: RESOURCE_URI, visibility: ["app"] } },
+    },
+    instrumentedWithoutArgs("restore_nexs_spreadsheet", async (extra): Promise<CallToolResult> => {
+      const appUrl = (await loadClientState(extra))?.lastSpreadsheetUrl ?? null;
+      const session = appUrl ? await resolveSession(extra, appUrl) : null;
+      return {
+        content: [],
+        structuredContent: {
+          app_url: appUrl,
+          display_stream_url: displayStreamUrl(extra, session),
+        },
+        _meta: embedMeta(session),
+      };
+    }, { appOnly: true }),
+  );
+
+  // ---------------------------------------------------------------------------
+  // update_nexs_cells — internal, App View only.
+  //
+  // Called by the browser when the NExS iframe sends an "updateCellMap"
+  // postMessage (nexs_embed.js protocol).  Patches the server's cell cache so
+  // that get_cell reflects edits the user makes in the live iframe.
+  //
+  // Not visible to the LLM (visibility: ["app"]).
+  // ---------------------------------------------------------------------------
+  registerAppTool(
+    server,
+    "update_nexs_cells",
+    {
+      description:
+        "Internal: patches the server cell cache from a NExS iframe updateCellMap " +
+        "postMessage.  Called by the browser — not for LLM use.",
+      inputSchema: {
+        cells: z
+          .array(z.record(z.string(), z.unknown()))
+          .describe(
+            "Array of per-view cell maps. cells[viewIndex][cellAddr] = NexsCellInfo."
+          ),
+        sheetNames: z
+          .array(z.string().nullable())
+          .optional()
+          .describe(
+            "Sheet name for each view, as reported by the iframe's initApp. " +
+            "Used as a fallback when the server-side views list is empty."
+          ),
+        isInitApp: z
+          .boolean()
+          .optional()
+          .describe("True when called with initApp data (full initial state)."),
+        sessionId: z
+          .string()
+          .optional()
+          .describe("Session UUID from the iframe's initApp message, if present."),
+        revision: z
+          .number()
+          .optional()
+          .describe("Revision number from the iframe's initApp or updateCellMap message, if present."),
+        names: z
+          .array(z.object({ name: z.string(), sheetName: z.string(), range: z.string() }))
+          .optional()
+          .describe("Defined names from the iframe's initApp message, if present."),
+        app_url: z
+          .string()
+          .optional()
+          .describe("URL mounted in the App View, used to route to that app's session."),
+      },
+      _meta: { ui: { resourceUri: RESOURCE_URI, visibility: ["app"] } },
+    },
+    instrumented("update_nexs_cells", async (
+      { cells, sheetNames, isInitApp, sessionId, revision, names, app_url },
+      extra,
+    ): Promise<CallToolResult> => {
+      const nexsSession = await resolveSession(extra, app_url);
+      if (!nexsSession) return { content: [] };
+
+      let count = 0;
+      // Input cells whose value the user changed in the iframe, for the undo
+      // history.  Echoes of our own writes already match the cache and are
+      // not recorded twice.
+      const userEdits: CellWrite[] = [];
+      const userPrevious: CellWrite[] = [];
+      // Cells whose value or text actually changed, for resource subscribers.
+      const changedKeys: string[] = [];
+      for (let viewIdx = 0; viewIdx < cells.length; viewIdx++) {
+        // Prefer the server's view list; fall back to the sheetNames supplied
+        // by the browser from the iframe's initApp (in case nexsInit failed or
+        // returned views in a different order).
+        const sheetName =
+          nexsSession.views[viewIdx]?.sheetName ??
+          sheetNames?.[viewIdx] ??
+          null;
+        if (!sheetName) continue;
+        for (const [addr, ciRaw] of Object.entries(cells[viewIdx])) {
+          const ci = ciRaw as NexsCellInfo;
+          if (ci && typeof ci === "object") {
+            // initApp and updateCellMap cells are keyed by addr but the addr
+            // field may be absent from the value object itself (the embed
+            // protocol uses the key, not a redundant field).  Ensure addr is
+            // always present so get_cell's outputSchema validation succeeds.
+            const addrUpper = addr.toUpperCase();
+            const fullCi: NexsCellInfo = ci.addr ? ci : { ...ci, addr: addrUpper };
+            const prev = nexsSession.cellCache.get(`${sheetName}!${addrUpper}`)?.ci;
+            if (!prev || prev.data !== fullCi.data || prev.text !== fullCi.text) {
+              changedKeys.push(`${sheetName}!${addrUpper}`);
+            }
+            if (!isInitApp && prev && isInputCell(prev) && prev.data !== fullCi.data) {
+              userEdits.push({ sheetName, addr: addrUpper, value: fullCi.data });
+              userPrevious.push({ sheetName, addr: addrUpper, value: prev.data });
+            }
+            cacheCell(nexsSession, sheetName, fullCi);
+            count++;
+          }
+        }
+      }
+
+      if (isInitApp) {
+        nexsSession.seededFromBrowser = true;
+        if (sessionId) {
+          // Adopt the iframe's actual session UUID so that set_cell interact
+          // calls target the same live session the user is looking at.
+          log.info("Adopting iframe session", { sessionId, initSessionId: nexsSession.sessionId });
+          nexsSession.sessionId = sessionId;
+        } else {
+          // The iframe did not include a session field in initApp.
+          // Log so we know to investigate further.
+          log.warn("initApp had no session field; keeping the nexsInit session", {
+            sessionId: nexsSession.sessionId,
+          });
+        }
+        if (revision !== undefined) nexsSession.revision = revision;
+        // The iframe's name table wins over nexsInit's; both describe the same
+        // workbook but initApp is what the user is actually looking at.
+        if (names && names.length > 0) nexsSession.names = buildNameTable(names);
+        log.info("initApp seeded the cache", {
+          cells: count,
+          sessionId: nexsSession.sessionId,
+          revision: nexsSession.revision,
+        });
+      } else {
+        // User edits in the iframe advance the NExS revision; track it so the
+        // next set_cell does not write against a stale one, and so the edits
+        // are logged under the revision that made them.
+        if (revision !== undefined && revision > nexsSession.revision) nexsSession.revision = revision;
+        recordHistory(nexsSession, "user", userEdits, userPrevious);
+        log.debug("updateCellMap patched the cache", { cells: count });
+      }
+      notifyCellsChanged(nexsSession, changedKeys);
+      persistClient(nexsSession.clientKey);
+      enforceCellLimit(nexsSession);
+      return { content: [] };
+    }, { appOnly: true }),
+  );
+
+  // ---------------------------------------------------------------------------
+  // pop_nexs_display_inputs — internal, App View only.
+  //
+  // Fallback for App Views that cannot open the display stream (stdio, or a
+  // host CSP that blocks the connection).  The browser polls this every second
+  // to drain the pendingDisplayInputs queue and forwards each entry to the
+  // NExS iframe as an {op:"input"} postMessage.
+  // ---------------------------------------------------------------------------
+  registerAppTool(
+    server,
+    "pop_nexs_display_inputs",
+    {
+      description:
+        "Internal: returns and clears pending iframe input updates queued by set_cell. " +
+        "Fallback for App Views without a display stream — not for LLM use.",
+      inputSchema: {
+        app_url: z
+          .string()
+          .optional()
+          .describe("URL mounted in the App View, used to route to that app's session."),
+      },
+      outputSchema: {
+        inputs: z
+          .array(
+            z.object({
+              viewIndex: z.number(),
+              addr: z.string(),
+              value: z.union([z.string(), z.number()]),
+            })
+          )
+          .describe("Pending {viewIndex, addr, value} tuples to forward to the iframe."),
+      },
+      _meta: { ui: { resourceUri: RESOURCE_URI, visibility: ["app"] } },
+    },
+    instrumented("pop_nexs_display_inputs", async ({ app_url }, extra): Promise<CallToolResult> => {
+      const nexsSession = await resolveSession(extra, app_url);
+      const inputs = nexsSession?.pendingDisplayInputs ?? [];
+      if (nexsSession) nexsSession.pendingDisplayInputs = [];
+      return {
+        content: [],
+        structuredContent: { inputs },
+      };
+    }, { appOnly: true }),
+  );
+
+  // ---------------------------------------------------------------------------
+  // get_cell
+  // ---------------------------------------------------------------------------
+  server.registerTool(
+    "get_cell",
+    {
+      title: "Get NExS Cell Value",
+      description:
+        "Reads the current value of a cell from the displayed NExS spreadsheet. " +
+        "Use this — NOT render_nexs_spreadsheet — when the user asks about " +
+        "quantities, values, or calculations shown in the spreadsheet. " +
+        "Returns the formatted text, raw data value, and data type.",
+      inputSchema: {
+        cell_ref: z
+          .string()
+          .describe(
+            "Cell address such as 'A1', 'B17', or 'Sheet1!A1'. " +
+            "Named cells defined in the spreadsheet are also supported (see list_names)."
+          ),
+        sheet: z
+          .string()
+          .optional()
+          .describe(
+            "Sheet name. Optional when cell_ref includes the sheet (e.g. 'Sheet1!A1') " +
+            "or the spreadsheet has only one sheet."
+          ),
+      },
+      outputSchema: {
+        sheet: z.string().describe("Sheet name the cell was found in."),
+        addr: z.string().describe("Cell address (e.g. 'A1')."),
+        value: z.union([z.string(), z.number()]).describe("Raw cell value."),
+        text: z.string().describe("Formatted display text."),
+        datatype: z.enum(["numeric", "string", "error", "n/a"]).describe("Cell data type."),
+      },
+    },
+    instrumented("get_cell", async ({ cell_ref, sheet }, extra): Promise<CallToolResult> => {
+      const nexsSession = await resolveSession(extra);
+      if (!nexsSession) return noSessionResult(extra);
+
+      await waitForBrowserSeed(nexsSession);
+
+      const { sheet: parsedSheet, cell: cellAddr, name } = resolveCellRef(nexsSession, cell_ref);
+      const sheetName = resolveSheetName(nexsSession, parsedSheet, sheet);
+      if (name && !parseAddr(cellAddr)) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text:
+                `'${name}' refers to the range ${sheetName}!${cellAddr}. ` +
+                `Call get_range with '${name}' to read it.`,
+            },
+          ],
+        };
+      }
+
+      // Search the cache for the requested cell.
+      const cacheKey = sheetName
+        ? `${sheetName}!${cellAddr.toUpperCase()}`
+        : null;
+
+      let found: { sheetName: string; ci: NexsCellInfo } | undefined;
+
+      if (cacheKey) {
+        found = nexsSession.cellCache.get(cacheKey);
+      } else {
+        const upper = cellAddr.toUpperCase();
+        for (const [key, val] of nexsSession.cellCache) {
+          if (key.endsWith(`!${upper}`)) {
+            found = val;
+            break;
+          }
+        }
+      }
+
+      getCellCache.inc({ result: found ? "hit" : "miss" });
+      if (!found) {
+        // Cell not in cache. Two possible causes:
+        //
+        // 1. Race condition: the user just edited the cell and the browser's
+        //    updateCellMap relay callServerTool is still in-flight.  Wait up
+        //    to 1 s for it to land, then retry.
+        //
+        // 2. Missing from initApp: editable input cells may not appear in the
+        //    iframe's initApp snapshot.  Fall back to a server-side interact
+        //    call (revision:0 = full current state) to retrieve them directly.
+        //    The call is capped at GET_CELL_SYNC_TIMEOUT_MS so a stale/wrong
+        //    session never causes ChatGPT's MCP timeout to fire.
+
+        // --- retry delay (race condition) ---
+        getCellFallbacks.inc({ path: "retry_delay" });
+        await new Promise<void>((resolve) => setTimeout(resolve, 800));
+        if (cacheKey) {
+          found = nexsSession.cellCache.get(cacheKey);
+        } else {
+          const upper = cellAddr.toUpperCase();
+          for (const [key, val] of nexsSession.cellCache) {
+            if (key.endsWith(`!${upper}`)) { found = val; break; }
+          }
+        }
+      }
+
+      if (!found && nexsSession.sessionId) {
+        // --- interact fallback (short timeout, no retries) ---
+        getCellFallbacks.inc({ path: "interact" });
+        try {
+          throttleSession(nexsSession);
+          const delta = await nexsInteract(nexsSession, 0, [], {
+            timeoutMs: GET_CELL_SYNC_TIMEOUT_MS,
+            retries: 0,
+            signal: extra.signal,
+          });
+          applyDelta(nexsSession, delta);
+          if (cacheKey) {
+            found = nexsSession.cellCache.get(cacheKey);
+          } else {
+            const upper = cellAddr.toUpperCase();
+            for (const [key, val] of nexsSession.cellCache) {
+              if (key.endsWith(`!${upper}`)) { found = val; break; }
+            }
+          }
+        } catch (err) {
+          // A dead session will never produce the cell, and a throttled one
+          // must not be asked again right away; say so.  Anything else
+          // (timeout, network) falls through to the not-found response.
+          if (
+            err instanceof NexsSessionExpiredError ||
+            err instanceof NexsUnauthorizedError ||
+            err instanceof ThrottledError
+          ) {
+            return { isError: true, content: [{ type: "text", text: describeNexsError(err) }] };
+          }
+        }
+      }
+
+      if (!found) {
+        // Return a response that satisfies the outputSchema so the host doesn't
+        // treat this as a dropped/malformed tool call.  Use datatype:"n/a" as
+        // a sentinel; the text field explains what happened and lists all known
+        // cells so the model can still extract the answer if it's visible.
+        getCellFallbacks.inc({ path: "not_found" });
+        const cacheEntries = [...nexsSession.cellCache.entries()];
+        const summary = cacheEntries.length > 0
+          ? cacheEntries.map(([key, { ci }]) => `${key}=${ci.text}`).join(", ")
+          : "(cache is empty — spreadsheet may still be initialising)";
+        const sheets = [...new Set(cacheEntries.map(([, v]) => v.sheetName))];
+        const notFoundText =
+          `Cell '${cell_ref}' is not yet available in the cache. ` +
+          `Known sheets: ${sheets.join(", ") || "none"}. ` +
+          `Currently cached: ${summary}. ` +
+          `If the spreadsheet just loaded, call get_cell again in a moment; ` +
+          `otherwise call describe_spreadsheet to see which cells exist.`;
+        return {
+          content: [{ type: "text", text: notFoundText }],
+          structuredContent: {
+            sheet: sheetName ?? (sheets[0] ?? ""),
+            addr: cellAddr.toUpperCase(),
+            value: "not_found",
+            text: notFoundText,
+            datatype: "n/a" as const,
+          },
+        };
+      }
+
+      const { sheetName: foundSheet, ci } = found;
+      return {
+        content: [
+          { type: "text", text: `${foundSheet}!${ci.addr} = ${ci.text} (${ci.datatype})` },
+        ],
+        structuredContent: {
+          sheet: foundSheet,
+          addr: ci.addr,
+          value: ci.data,
+          text: ci.text,
+          datatype: ci.datatype,
+        },
+      };
+    }),
+  );
+
+  // ---------------------------------------------------------------------------
+  // get_range
+  // ---------------------------------------------------------------------------
+  const cellValueSchema = z
+    .object({
+      value: z.union([z.string(), z.number()]),
+      text: z.string(),
+      datatype: z.enum(["numeric", "string", "error", "n/a"]),
+    })
+    .nullable();
+
+  server.registerTool(
+    "get_range",
+    {
+      title: "Get NExS Cell Range",
+      description:
+        "Reads a rectangular block of cells from the displayed NExS spreadsheet in " +
+        "one call. Prefer this over repeated get_cell calls when reading a table. " +
+        "Returns a grid of rows; cells with no value are null.",
+      inputSchema: {
+        range: z
+          .string()
+          .describe("Range such as 'A1:D20' or 'Sheet1!A1:D20', or a defined range name."),
+        sheet: z
+          .string()
+          .optional()
+          .describe(
+            "Sheet name. Optional when range includes the sheet (e.g. 'Sheet1!A1:D20') " +
+            "or the spreadsheet has only one sheet."
+          ),
+      },
+      outputSchema: {
+        sheet: z.string().describe("Sheet name the range was read from."),
+        range: z.string().describe("Normalised range (e.g. 'A1:D20')."),
+        rows: z
+          .array(z.array(cellValueSchema))
+          .describe("Cells row by row, left to right. Null where the cell is empty or unknown."),
+        table: z.string().describe("The same grid rendered as a text table."),
+      },
+    },
+    instrumented("get_range", async ({ range, sheet }, extra): Promise<CallToolResult> => {
+      const nexsSession = await resolveSession(extra);
+      if (!nexsSession) return noSessionResult(extra);
+
+      await waitForBrowserSeed(nexsSession);
+
+      const { sheet: parsedSheet, cell: rangeRef } = resolveCellRef(nexsSession, range);
+      const bounds = parseRange(rangeRef);
+      if (!bounds) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text:
+                `Invalid range '${range}'. Use 'A1:D20', 'Sheet1!A1:D20', or a defined name ` +
+                `(see list_names).`,
+            },
+          ],
+        };
+      }
+
+      const width = bounds.end.col - bounds.start.col + 1;
+      const height = bounds.end.row - bounds.start.row + 1;
+      if (width * height > MAX_RANGE_CELLS) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text:
+                `Range '${range}' covers ${width * height} cells; the limit is ` +
+                `${MAX_RANGE_CELLS}. Split it into smaller ranges.`,
+            },
+          ],
+        };
+      }
+
+      const sheetName =
+        resolveSheetName(nexsSession, parsedSheet, sheet) ??
+        nexsSession.cellCache.values().next().value?.sheetName ??
+        null;
+      if (!sheetName) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text:
+                "Cannot determine sheet name and the cache is empty. " +
+                "If the spreadsheet just loaded, call get_range again in a moment.",
+            },
+          ],
+        };
+      }
+
+      const rows: Array<Array<z.infer<typeof cellValueSchema>>> = [];
+      for (let row = bounds.start.row; row <= bounds.end.row; row++) {
+        const line: Array<z.infer<typeof cellValueSchema>> = [];
+        for (let col = bounds.start.col; col <= bounds.end.col; col++) {
+          const hit = nexsSession.cellCache.get(`${sheetName}!${columnLetters(col)}${row}`);
+          line.push(
+            hit ? { value: hit.ci.data, text: hit.ci.text, datatype: hit.ci.datatype } : null
+          );
+        }
+        rows.push(line);
+      }
+
+      const normalisedRange =
+        `${columnLetters(bounds.start.col)}${bounds.start.row}:` +
+        `${columnLetters(bounds.end.col)}${bounds.end.row}`;
+
+      // Render a pipe table with column letters across the top and row numbers
+      // down the side so the model can cite cells by address.
+      const header = [
+        "",
+        ...Array.from({ length: width }, (_, i) => columnLetters(bounds.start.col + i)),
+      ];
+      const body = rows.map((line, i) => [
+        String(bounds.start.row + i),
+        ...line.map((c) => (c ? c.text.replace(/\|/g, "\\|") : "")),
+      ]);
+      const table = [header, header.map(() => "---"), ...body]
+        .map((cols) => `| ${cols.join(" | ")} |`)
+        .join("\n");
+
+      return {
+        content: [{ type: "text", text: `${sheetName}!${normalisedRange}\n${table}` }],
+        structuredContent: {
+          sheet: sheetName,
+          range: normalisedRange,
+          rows,
+          table,
+        },
+      };
+    }),
+  );
+
+  // ---------------------------------------------------------------------------
+  // list_names
+  // ---------------------------------------------------------------------------
+  server.registerTool(
+    "list_names",
+    {
+      title: "List NExS Defined Names",
+      description:
+        "Lists the named cells and ranges defined in the displayed NExS spreadsheet. " +
+        "Any of these names can be passed as cell_ref to get_cell / set_cell or as " +
+        "range to get_range.",
+      outputSchema: {
+        names: z
+          .array(
+            z.object({
+              name: z.string(),
+              sheet: z.string(),
+              range: z.string().describe("Address ('B7') or range ('B2:B9') the name refers to."),
+            })
+          )
+          .describe("Defined names, sorted alphabetically."),
+      },
+    },
+    instrumentedWithoutArgs("list_names", async (extra): Promise<CallToolResult> => {
+      const nexsSession = await resolveSession(extra);
+      if (!nexsSession) return noSessionResult(extra);
+
+      await waitForBrowserSeed(nexsSession);
+
+      const names = [...nexsSession.names.values()]
+        .map((n) => ({ name: n.name, sheet: n.sheetName, range: n.range }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              names.length > 0
+                ? names.map((n) => `${n.name} → ${n.sheet}!${n.range}`).join("\n")
+                : "This spreadsheet has no defined names. Use cell addresses such as 'Sheet1!A1'.",
+          },
+        ],
+        structuredContent: { names },
+      };
+    }),
+  );
+
+  // ---------------------------------------------------------------------------
+  // describe_spreadsheet
+  // ---------------------------------------------------------------------------
+  server.registerTool(
+    "describe_spreadsheet",
+    {
+      title: "Describe NExS Spreadsheet",
+      description:
+        "Describes the structure of the displayed NExS spreadsheet: its views and " +
+        "their ranges, the sheets with cell counts, and which cells are inputs " +
+        "(constants that can be written with set_cell) versus formula outputs. " +
+        "Call this before reading or writing cells whose addresses you don't know.",
+      outputSchema: {
+        views: z
+          .array(
+            z.object({
+              index: z.number().describe("View index, as used by the iframe."),
+              name: z.string(),
+              sheet: z.string(),
+              range: z.string(),
+              visible: z.boolean(),
+            })
+          )
+          .describe("Views defined by the NExS app, in order."),
+        sheets: z
+          .array(
+            z.object({
+              name: z.string(),
+              visible: z.boolean().describe("True when at least one visible view shows this sheet."),
+              cellCount: z.number().describe("Cells currently known for this sheet."),
+              inputs: z.array(z.string()).describe("Addresses of editable input cells."),
+              outputs: z.array(z.string()).describe("Addresses of formula output (read-only) cells."),
+              truncated: z
+                .boolean()
+                .describe(`True when inputs or outputs were cut off at ${MAX_DESCRIBE_CELLS} addresses.`),
+            })
+          )
+          .describe("Sheets known from the views and the cell cache."),
+        names: z.number().describe("Number of defined names (see list_names)."),
+        formulasKnown: z
+          .boolean()
+          .describe(
+            "False when no cell carried a formula or editability flag, in which case inputs/outputs " +
+            "could not be told apart and every cell is listed as an input."
+          ),
+      },
+    },
+    instrumentedWithoutArgs("describe_spreadsheet", async (extra): Promise<CallToolResult> => {
+      const nexsSession = await resolveSession(extra);
+      if (!nexsSession) return noSessionResult(extra);
+
+      await waitForBrowserSeed(nexsSession);
+
+      const views = nexsSession.views.map((v, index) => ({
+        index,
+        name: v.name,
+        sheet: v.sheetName,
+        range: v.range,
+        visible: !v.isInvisible,
+      }));
+
+      const bySheet = new Map<string, { inputs: string[]; outputs: string[] }>();
+      for (const v of nexsSession.views) {
+        if (!bySheet.has(v.sheetName)) bySheet.set(v.sheetName, { inputs: [], outputs: [] });
+      }
+      let formulasKnown = false;
+      for (const { sheetName, ci } of nexsSession.cellCache.values()) {
+        let entry = bySheet.get(sheetName);
+        if (!entry) {
+          entry = { inputs: [], outputs: [] };
+          bySheet.set(sheetName, entry);
+        }
+        if (isFormulaCell(ci) || typeof ci.editable === "boolean") formulasKnown = true;
+        if (isInputCell(ci)) {
+          entry.inputs.push(ci.addr.toUpperCase());
+        } else {
+          entry.outputs.push(ci.addr.toUpperCase());
+        }
+      }
+
+      const sheets = [...bySheet].map(([name, { inputs, outputs }]) => {
+        inputs.sort(compareAddrs);
+        outputs.sort(compareAddrs);
+        return {
+          name,
+          // Without a view list (nexsInit failed) there is nothing marking a
+          // sheet hidden, so report it as visible.
+          visible:
+            nexsSession.views.length === 0 ||
+            nexsSession.views.some((v) => v.sheetName === name && !v.isInvisible),
+          cellCount: inputs.length + outputs.length,
+          inputs: inputs.slice(0, MAX_DESCRIBE_CELLS),
+          outputs: outputs.slice(0, MAX_DESCRIBE_CELLS),
+          truncated: inputs.length > MAX_DESCRIBE_CELLS || outputs.length > MAX_DESCRIBE_CELLS,
+        };
+      });
+
+      const lines = [
+        `Views: ${
+          views.length > 0
+            ? views
+                .map((v) => `[${v.index}] ${v.name} → ${v.sheet}!${v.range}${v.visible ? "" : " (hidden)"}`)
+                .join("; ")
+            : "none reported"
+        }`,
+        ...sheets.map(
+          (sh) =>
+            `Sheet ${sh.name}${sh.visible ? "" : " (hidden)"}: ${sh.cellCount} cells; ` +
+            `inputs ${sh.inputs.join(", ") || "none"}; ` +
+            `outputs ${sh.outputs.join(", ") || "none"}${sh.truncated ? " (truncated)" : ""}`
+        ),
+        `Defined names: ${nexsSession.names.size}`,
+      ];
+      if (!formulasKnown) {
+        lines.push("No formulas were reported, so inputs and outputs could not be told apart.");
+      }
+
+      return {
+        content: [{ type: "text", text: lines.join("\n") }],
+        structuredContent: {
+          views,
+          sheets,
+          names: nexsSession.names.size,
+          formulasKnown,
+        },
+      };
+    }),
+  );
+
+  // ---------------------------------------------------------------------------
+  // set_cell
+  // ---------------------------------------------------------------------------
+  // Registered as an app tool so that ontoolresult fires in the browser,
+  // allowing spreadsheet.ts to forward the same input to the NExS iframe via
+  // postMessage and keep the live view in sync with what the AI wrote.
+  const changedCellSchema = z.object({
+    sheet: z.string(),
+    addr: z.string(),
+    value: z.union([z.string(), z.number()]),
+    text: z.string(),
+    datatype: z.enum(["numeric", "string", "error", "n/a"]),
+  });
+
+  const resyncSchema = z
+    .enum(["stale_revision", "session_expired"])
+    .nullable()
+    .describe(
+      "Set when the server had to resync with NExS before the write went through: " +
+      "the spreadsheet had moved to a newer revision, or the session had expired."
+    );
+
+  registerAppTool(
+    server,
+    "set_cell",
+    {
+      title: "Set NExS Cell Value",
+      description:
+        "Writes a value to an editable cell in the NExS spreadsheet and returns " +
+        "all cells that changed as a result of the backend recalculation. " +
+        "Only cells marked as editable in the spreadsheet can be written; writes to " +
+        "formula cells or unknown addresses are rejected with a list of nearby inputs.",
+      inputSchema: {
+        cell_ref: z
+          .string()
+          .describe("Cell address such as 'A1', 'B17', or 'Sheet1!A1', or a defined name."),
+        value: z
+          .union([z.string(), z.number()])
+          .describe("New value to write to the cell."),
+        sheet: z
+          .string()
+          .optional()
+          .describe(
+            "Sheet name. Optional when cell_ref includes the sheet or the spreadsheet has one sheet."
+          ),
+      },
+      outputSchema: {
+        app_url: z
+          .string()
+          .url()
+          .describe(
+            "The current spreadsheet URL. Included so the host delivers this result " +
+            "to the App View (ontoolresult), enabling the iframe display to update."
+          ),
+        revision: z.number().describe("New revision number after the change."),
+        viewIndex: z
+          .number()
+          .describe("View index passed to the iframe input postMessage."),
+        addr: z.string().describe("Normalised cell address for iframe input."),
+        value: z
+          .union([z.string(), z.number()])
+          .describe("Value written, for iframe input."),
+        changed: z
+          .array(changedCellSchema)
+          .describe("Cells that changed as a result of this write."),
+        resync: resyncSchema,
+      },
+      _meta: { ui: { resourceUri: RESOURCE_URI } },
+    },
+    instrumented("set_cell", async ({ cell_ref, value, sheet }, extra): Promise<CallToolResult> => {
+      const nexsSession = await resolveSession(extra);
+      if (!nexsSession) return noSessionResult(extra);
+
+      const target = resolveWriteTarget(nexsSession, cell_ref, sheet);
+      if ("error" in target) return writeTargetErrorResult(target);
+      const { sheetName, addr: cellAddr } = target;
+
+      let written: Awaited<ReturnType<typeof writeLiveCells>>;
+      try {
+        written = await writeLiveCells(nexsSession, [{ sheetName, addr: cellAddr, value }], {
+          signal: extra.signal,
+        });
+      } catch (err) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `Failed to write to NExS: ${describeNexsError(err)}`,
+            },
+          ],
+        };
+      }
+
+      const { changed, revision, resync } = written;
+      const { viewIndex } = written.inputs[0];
+
+      const summary =
+        changed.length > 0
+          ? changed.map((c) => `${c.sheet}!${c.addr} = ${c.text}`).join(", ")
+          : `${sheetName}!${cellAddr} set (no downstream changes reported)`;
+
+      return {
+        content: [
+          { type: "text", text: `Set ${sheetName}!${cellAddr} = ${value}. Changes: ${summary}${resyncNote(resync)}` },
+        ],
+        structuredContent: {
+          // app_url is required for the host (e.g. ChatGPT) to deliver this
+          // result to the App View so ontoolresult fires and the iframe can
+          // be updated via {op:"input"} postMessage.
+          app_url: nexsSession.appUrl,
+          revision,
+          viewIndex,
+          addr: cellAddr,
+          value,
+          changed,
+          resync,
+        },
+        _meta: embedMeta(nexsSession),
+      };
+    }),
+  );
+
+  // ---------------------------------------------------------------------------
+  // set_cells
+  // ---------------------------------------------------------------------------
+  // Batch variant of set_cell: every input goes to NExS in a single interact
+  // call, so the backend recalculates once and the revision bumps once.
+  // Shared by every app tool that writes several inputs to the live session
+  // (set_cells, undo/redo, restore_snapshot).  The view recognises the
+  // `inputs` array and treats the result like a set_cell result.
+  const batchWriteOutputSchema = {
+    app_url: z
+      .string()
+      .url()
+      .describe(
+        "The current spreadsheet URL. Included so the host delivers this result " +
+        "to the App View (ontoolresult), enabling the iframe display to update."
+      ),
+    revision: z.number().describe("New revision number after the change."),
+    inputs: z
+      .array(
+        z.object({
+          viewIndex: z.number(),
+          addr: z.string(),
+          value: z.union([z.string(), z.number()]),
+        })
+      )
+      .describe("Written {viewIndex, addr, value} tuples, for iframe input."),
+    changed: z
+      .array(changedCellSchema)
+      .describe("Cells that changed as a result of these writes, merged across all inputs."),
+    resync: resyncSchema,
+  };
+
+  registerAppTool(
+    server,
+    "set_cells",
+    {
+      title: "Set Multiple NExS Cell Values",
+      description:
+        "Writes several editable cells in the NExS spreadsheet in one recalculation " +
+        "and returns all cells that changed. Prefer this over repeated set_cell calls " +
+        "when changing more than one input. If any target is invalid nothing is written.",
+      inputSchema: {
+        cells: z
+          .array(
+            z.object({
+              cell_ref: z
+                .string()
+                .describe("Cell address such as 'A1', 'B17', or 'Sheet1!A1', or a defined name."),
+              value: z
+                .union([z.string(), z.number()])
+                .describe("New value to write to the cell."),
+              sheet: z
+                .string()
+                .optional()
+                .describe("Sheet name, when cell_ref does not include one."),
+            })
+          )
+          .min(1)
+          .max(MAX_BATCH_INPUTS)
+          .describe("Cells to write, applied together in a single recalculation."),
+      },
+      outputSchema: batchWriteOutputSchema,
+      _meta: { ui: { resourceUri: RESOURCE_URI } },
+    },
+    instrumented("set_cells", async ({ cells }, extra): Promise<CallToolResult> => {
+      const nexsSession = await resolveSession(extra);
+      if (!nexsSession) return noSessionResult(extra);
+
+      // Validate every target before touching NExS so a bad entry can't leave
+      // the spreadsheet half-updated.
+      const targets: CellWrite[] = [];
+      const problems: Array<WriteTargetError & { index: number }> = [];
+      for (const [i, { cell_ref, value, sheet }] of cells.entries()) {
+        const target = resolveWriteTarget(nexsSession, cell_ref, sheet);
+        if ("error" in target) {
+          problems.push({ ...target, index: i });
+        } else {
+          targets.push({ ...target, value });
+        }
+      }
+      if (problems.length > 0) {
         return {
+          isError: true,
           content: [
             {
               type: "text",
               text:
-                `Spreadsheet already loaded (${app_url}).\n` +
-                `Use get_cell to read values and set_cell to write them.`,
+                `No cells were written. Invalid targets:\n` +
+                problems.map((p) => `cells[${p.index}] (${cells[p.index].cell_ref}): ${p.error}`).join("\n"),
             },
           ],
-          structuredContent: { app_url },
+          structuredContent: { errors: problems },
         };
       }
 
-      // New URL (or first call): initialise the server-side NExS session.
-      // Always create nexsSession first (even if nexsInit fails below) so that
-      // the browser's update_nexs_cells relay can still populate the cache from
-      // the iframe's initApp/updateCellMap postMessages.
-      if (appUuid) {
-        nexsSession = {
-          appUuid,
-          sessionId: "",
-          revision: 0,
-          views: [],
-          cellCache: new Map(),
-          seededFromBrowser: false,
-          pendingDisplayInputs: [],
+      let written: Awaited<ReturnType<typeof writeLiveCells>>;
+      try {
+        written = await writeLiveCells(nexsSession, targets, { signal: extra.signal });
+      } catch (err) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text:
+                `Failed to write to NExS (no cells were changed): ` +
+                `${describeNexsError(err)}`,
+            },
+          ],
         };
-        try {
-          const init = await nexsInit(appUuid);
-          nexsSession.sessionId = init.sessionId;
-          nexsSession.revision = init.revision;
-          nexsSession.views = init.views;
-          nexsSession.cellCache = buildCellCache(init.values);
-        } catch (err) {
-          // Non-fatal: nexsSession exists so browser relay will still work;
-          // get_cell will wait for seededFromBrowser before reading the cache.
-          console.error("[NExS] Session init failed (browser relay will seed cache):", err);
-        }
       }
 
+      const { changed, inputs, revision, resync } = written;
+
+      const writtenText = targets.map((t) => `${t.sheetName}!${t.addr} = ${t.value}`).join(", ");
+      const summary =
+        changed.length > 0
+          ? changed.map((c) => `${c.sheet}!${c.addr} = ${c.text}`).join(", ")
+          : "no downstream changes reported";
+
+      return {
+        content: [{ type: "text", text: `Set ${writtenText}. Changes: ${summary}${resyncNote(resync)}` }],
+        structuredContent: {
+          app_url: nexsSession.appUrl,
+          revision,
+          inputs,
+          changed,
+          resync,
+        },
+        _meta: embedMeta(nexsSession),
+      };
+    }),
+  );
+
+  // ---------------------------------------------------------------------------
+  // undo_last_change / redo / save_snapshot / restore_snapshot
+  // ---------------------------------------------------------------------------
+  // Undo and redo replay the recorded input values through writeLiveCells, so
+  // NExS recalculates and the iframe is updated exactly as for set_cells.
+
+  /** Writes `writes` to the live session and formats the batch-write result. */
+  const replayToLive = async (
+    nexsSession: NexsSession,
+    writes: CellWrite[],
+    label: string,
+    options: { record?: boolean; signal?: AbortSignal },
+  ): Promise<CallToolResult> => {
+    let written: Awaited<ReturnType<typeof writeLiveCells>>;
+    try {
+      written = await writeLiveCells(nexsSession, writes, options);
+    } catch (err) {
       return {
+        isError: true,
         content: [
           {
             type: "text",
-            text:
-              `Rendering NExS spreadsheet: ${app_url}\n` +
-              `Session ready. Use get_cell to read values and set_cell to write them.`,
+            text: `${label} failed: ${describeNexsError(err)}`,
           },
         ],
-        structuredContent: { app_url },
       };
     }
+    const { changed, inputs, revision, resync } = written;
+    const restored = writes.map((w) => `${w.sheetName}!${w.addr} = ${w.value}`).join(", ");
+    return {
+      content: [
+        {
+          type: "text",
+          text:
+            `${label}: ${restored}. ${changed.length} cell(s) recalculated; revision ${revision}.` +
+            resyncNote(resync),
+        },
+      ],
+      structuredContent: { app_url: nexsSession.appUrl, revision, inputs, changed, resync },
+      _meta: embedMeta(nexsSession),
+    };
+  };
+
+  registerAppTool(
+    server,
+    "undo_last_change",
+    {
+      title: "Undo Last NExS Change",
+      description:
+        "Reverts the most recent change to the spreadsheet's inputs, whether it was " +
+        "made with set_cell / set_cells or by the user editing the live view.",
+      outputSchema: batchWriteOutputSchema,
+      _meta: { ui: { resourceUri: RESOURCE_URI } },
+    },
+    instrumentedWithoutArgs("undo_last_change", async (extra): Promise<CallToolResult> => {
+      const nexsSession = await resolveSession(extra);
+      if (!nexsSession) return noSessionResult(extra);
+      const entry = nexsSession.history.undo.pop();
+      if (!entry) {
+        return { isError: true, content: [{ type: "text", text: "There is nothing to undo." }] };
+      }
+      const result = await replayToLive(
+        nexsSession,
+        entry.previous,
+        `Undid ${entry.source === "user" ? "user edit" : "change"}`,
+        { record: false, signal: extra.signal },
+      );
+      if (result.isError) {
+        nexsSession.history.undo.push(entry);
+      } else {
+        nexsSession.history.redo.push(entry);
+      }
+      return result;
+    }),
+  );
+
+  registerAppTool(
+    server,
+    "redo",
+    {
+      title: "Redo NExS Change",
+      description: "Re-applies the change most recently reverted by undo_last_change.",
+      outputSchema: batchWriteOutputSchema,
+      _meta: { ui: { resourceUri: RESOURCE_URI } },
+    },
+    instrumentedWithoutArgs("redo", async (extra): Promise<CallToolResult> => {
+      const nexsSession = await resolveSession(extra);
+      if (!nexsSession) return noSessionResult(extra);
+      const entry = nexsSession.history.redo.pop();
+      if (!entry) {
+        return { isError: true, content: [{ type: "text", text: "There is nothing to redo." }] };
+      }
+      const result = await replayToLive(nexsSession, entry.inputs, "Redid change", {
+        record: false,
+        signal: extra.signal,
+      });
+      if (result.isError) {
+        nexsSession.history.redo.push(entry);
+      } else {
+        nexsSession.history.undo.push({ ...entry, revision: nexsSession.revision, at: Date.now() });
+      }
+      return result;
+    }),
+  );
+
+  server.registerTool(
+    "save_snapshot",
+    {
+      title: "Save NExS Snapshot",
+      description:
+        "Saves the current value of every input cell under a name, so the spreadsheet " +
+        "can later be put back to this state with restore_snapshot. Saving under an " +
+        "existing name replaces it.",
+      inputSchema: {
+        name: z.string().min(1).max(100).describe("Snapshot name, e.g. 'baseline'."),
+      },
+      outputSchema: {
+        name: z.string(),
+        revision: z.number().describe("Revision the snapshot was taken at."),
+        inputCount: z.number().describe("Number of input cells saved."),
+      },
+    },
+    instrumented("save_snapshot", async ({ name }, extra): Promise<CallToolResult> => {
+      const nexsSession = await resolveSession(extra);
+      if (!nexsSession) return noSessionResult(extra);
+      await waitForBrowserSeed(nexsSession);
+      const inputs = currentInputs(nexsSession);
+      nexsSession.snapshots.set(name, {
+        name,
+        revision: nexsSession.revision,
+        createdAt: Date.now(),
+        inputs,
+        cells: new Map(nexsSession.cellCache),
+      });
+      persistClient(nexsSession.clientKey);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Saved snapshot '${name}' (${inputs.length} inputs, revision ${nexsSession.revision}).`,
+          },
+        ],
+        structuredContent: { name, revision: nexsSession.revision, inputCount: inputs.length },
+      };
+    }),
   );
 
-  // ---------------------------------------------------------------------------
-  // restore_nexs_spreadsheet — internal, App View only.
-  // ---------------------------------------------------------------------------
   registerAppTool(
     server,
-    "restore_nexs_spreadsheet",
+    "restore_snapshot",
     {
-      description: "Returns the last-rendered NExS spreadsheet URL for refresh recovery.",
-      outputSchema: {
-        app_url: z.string().url().nullable().describe("Last spreadsheet URL, or null."),
+      title: "Restore NExS Snapshot",
+      description:
+        "Puts every input cell back to the values saved by save_snapshot. The restore " +
+        "is itself recorded, so undo_last_change can revert it.",
+      inputSchema: {
+        name: z.string().describe("Name passed to save_snapshot."),
       },
-      _meta: { ui: { resourceUri: RESOURCE_URI, visibility: ["app"] } },
+      outputSchema: batchWriteOutputSchema,
+      _meta: { ui: { resourceUri: RESOURCE_URI } },
     },
-    async (): Promise<CallToolResult> => ({
-      content: [],
-      structuredContent: { app_url: lastSpreadsheetUrl },
-    })
+    instrumented("restore_snapshot", async ({ name }, extra): Promise<CallToolResult> => {
+      const nexsSession = await resolveSession(extra);
+      if (!nexsSession) return noSessionResult(extra);
+      const snapshot = nexsSession.snapshots.get(name);
+      if (!snapshot) {
+        const known = [...nexsSession.snapshots.keys()];
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text:
+                `No snapshot named '${name}'. ` +
+                (known.length > 0 ? `Saved snapshots: ${known.join(", ")}.` : "No snapshots have been saved."),
+            },
+          ],
+        };
+      }
+      // Only send inputs that actually differ, so NExS recalculates the minimum.
+      const writes = snapshot.inputs.filter(
+        (w) => nexsSession.cellCache.get(`${w.sheetName}!${w.addr}`)?.ci.data !== w.value
+      );
+      if (writes.length === 0) {
+        return {
+          content: [{ type: "text", text: `The spreadsheet already matches snapshot '${name}'.` }],
+          structuredContent: {
+            app_url: nexsSession.appUrl,
+            revision: nexsSession.revision,
+            inputs: [],
+            changed: [],
+            resync: null,
+          },
+          _meta: embedMeta(nexsSession),
+        };
+      }
+      return replayToLive(nexsSession, writes, `Restored snapshot '${name}'`, { signal: extra.signal });
+    }),
   );
 
   // ---------------------------------------------------------------------------
-  // update_nexs_cells — internal, App View only.
-  //
-  // Called by the browser when the NExS iframe sends an "updateCellMap"
-  // postMessage (nexs_embed.js protocol).  Patches the server's cell cache so
-  // that get_cell reflects edits the user makes in the live iframe.
-  //
-  // Not visible to the LLM (visibility: ["app"]).
+  // diff_spreadsheet
   // ---------------------------------------------------------------------------
-  registerAppTool(
-    server,
-    "update_nexs_cells",
+  const cellChangeSchema = z.object({
+    cell: z.string().describe("Cell as 'Sheet!ADDR'."),
+    before: z.string().nullable().describe("Formatted text in the baseline, or null if absent."),
+    after: z.string().nullable().describe("Formatted text now, or null if absent."),
+    beforeValue: z.union([z.string(), z.number()]).nullable(),
+    afterValue: z.union([z.string(), z.number()]).nullable(),
+    delta: z
+      .number()
+      .nullable()
+      .describe("after − before when both are numeric (to 12 significant digits), else null."),
+  });
+
+  server.registerTool(
+    "diff_spreadsheet",
     {
+      title: "Diff NExS Spreadsheet",
       description:
-        "Internal: patches the server cell cache from a NExS iframe updateCellMap " +
-        "postMessage.  Called by the browser — not for LLM use.",
+        "Shows what changed in the spreadsheet compared with the published model " +
+        "(default), a snapshot saved with save_snapshot, or an earlier revision. " +
+        "Changed inputs (what the user or AI edited) and changed outputs (what " +
+        "recalculated as a result) are listed separately.",
       inputSchema: {
-        cells: z
-          .array(z.record(z.string(), z.unknown()))
-          .describe(
-            "Array of per-view cell maps. cells[viewIndex][cellAddr] = NexsCellInfo."
-          ),
-        sheetNames: z
-          .array(z.string().nullable())
+        against: z
+          .enum(["published", "snapshot", "revision"])
           .optional()
-          .describe(
-            "Sheet name for each view, as reported by the iframe's initApp. " +
-            "Used as a fallback when the server-side views list is empty."
-          ),
-        isInitApp: z
+          .describe("Baseline to compare with. Default 'published'."),
+        snapshot: z.string().optional().describe("Snapshot name, when against is 'snapshot'."),
+        revision: z.number().int().optional().describe("Revision number, when against is 'revision'."),
+      },
+      outputSchema: {
+        baseline: z.string().describe("Human-readable description of the baseline."),
+        inputs: z.array(cellChangeSchema).describe("Changed input cells."),
+        outputs: z.array(cellChangeSchema).describe("Changed formula output cells."),
+        truncated: z
           .boolean()
-          .optional()
-          .describe("True when called with initApp data (full initial state)."),
-        sessionId: z
-          .string()
-          .optional()
-          .describe("Session UUID from the iframe's initApp message, if present."),
-        revision: z
-          .number()
-          .optional()
-          .describe("Revision number from the iframe's initApp message, if present."),
+          .describe(`True when either list was cut off at ${MAX_DIFF_CELLS} cells.`),
       },
-      _meta: { ui: { resourceUri: RESOURCE_URI, visibility: ["app"] } },
     },
-    async ({ cells, sheetNames, isInitApp, sessionId, revision }): Promise<CallToolResult> => {
-      if (!nexsSession) return { content: [] };
+    instrumented("diff_spreadsheet", async ({ against = "published", snapshot, revision }, extra): Promise<CallToolResult> => {
+      const nexsSession = await resolveSession(extra);
+      if (!nexsSession) return noSessionResult(extra);
 
-      let count = 0;
-      for (let viewIdx = 0; viewIdx < cells.length; viewIdx++) {
-        // Prefer the server's view list; fall back to the sheetNames supplied
-        // by the browser from the iframe's initApp (in case nexsInit failed or
-        // returned views in a different order).
-        const sheetName =
-          nexsSession.views[viewIdx]?.sheetName ??
-          sheetNames?.[viewIdx] ??
-          null;
-        if (!sheetName) continue;
-        for (const [addr, ciRaw] of Object.entries(cells[viewIdx])) {
-          const ci = ciRaw as NexsCellInfo;
-          if (ci && typeof ci === "object") {
-            // initApp and updateCellMap cells are keyed by addr but the addr
-            // field may be absent from the value object itself (the embed
-            // protocol uses the key, not a redundant field).  Ensure addr is
-            // always present so get_cell's outputSchema validation succeeds.
-            const addrUpper = addr.toUpperCase();
-            const fullCi: NexsCellInfo = ci.addr ? ci : { ...ci, addr: addrUpper };
-            nexsSession.cellCache.set(`${sheetName}!${addrUpper}`, { sheetName, ci: fullCi });
-            count++;
-          }
-        }
-      }
+      await waitForBrowserSeed(nexsSession);
 
-      if (isInitApp) {
-        nexsSession.seededFromBrowser = true;
-        if (sessionId) {
-          // Adopt the iframe's actual session UUID so that set_cell interact
-          // calls target the same live session the user is looking at.
-          console.error(
-            `[NExS] Adopting iframe session: ${sessionId} (nexsInit had: ${nexsSession.sessionId})`
-          );
-          nexsSession.sessionId = sessionId;
+      const fail = (text: string): CallToolResult => ({
+        isError: true,
+        content: [{ type: "text", text }],
+      });
+
+      let baseline: NexsSession["cellCache"];
+      let label: string;
+      try {
+        if (against === "snapshot") {
+          if (!snapshot) return fail("Provide 'snapshot' when against is 'snapshot'.");
+          const saved = nexsSession.snapshots.get(snapshot);
+          if (!saved) {
+            const known = [...nexsSession.snapshots.keys()];
+            return fail(
+              `No snapshot named '${snapshot}'. ` +
+              (known.length > 0 ? `Saved snapshots: ${known.join(", ")}.` : "No snapshots have been saved.")
+            );
+          }
+          baseline = saved.cells;
+          label = `snapshot '${snapshot}' (revision ${saved.revision})`;
+        } else if (against === "revision") {
+          if (revision === undefined) return fail("Provide 'revision' when against is 'revision'.");
+          const reverts = inputsAtRevision(nexsSession, revision);
+          if (!reverts) {
+            return fail(
+              `Revision ${revision} is outside the recorded history ` +
+              `(current revision ${nexsSession.revision}).`
+            );
+          }
+          // Recalculate the old inputs in a fork to recover every output too.
+          const fork = await forkSession(nexsSession, extra.signal);
+          if (reverts.length > 0) await evaluateInFork(fork, reverts, extra.signal);
+          baseline = fork.cellCache;
+          label = `revision ${revision}`;
         } else {
-          // The iframe did not include a session field in initApp.
-          // Log so we know to investigate further.
-          console.error(
-            `[NExS] initApp received — no session field from iframe ` +
-            `(keeping nexsInit session: ${nexsSession.sessionId})`
-          );
+          if (!nexsSession.published) {
+            // nexsInit failed at render time; fetch the published values now.
+            throttleSession(nexsSession);
+            nexsSession.published = buildCellCache((await nexsInit(nexsSession, extra.signal)).values);
+          }
+          baseline = nexsSession.published;
+          label = "the published model";
         }
-        if (revision !== undefined) nexsSession.revision = revision;
-        console.error(
-          `[NExS] initApp seeded: ${count} cells, ` +
-          `session=${nexsSession.sessionId}, rev=${nexsSession.revision}`
+      } catch (err) {
+        return fail(
+          `Could not load the baseline from NExS: ${describeNexsError(err)}`
         );
-      } else {
-        console.error(`[NExS] updateCellMap: patched ${count} cells`);
       }
-      return { content: [] };
-    }
+
+      const { inputs, outputs } = diffCaches(baseline, nexsSession.cellCache);
+      const truncated = inputs.length > MAX_DIFF_CELLS || outputs.length > MAX_DIFF_CELLS;
+
+      const describe = (c: z.infer<typeof cellChangeSchema>) =>
+        `${c.cell}: ${c.before ?? "(empty)"} → ${c.after ?? "(empty)"}` +
+        (c.delta !== null ? ` (Δ ${c.delta})` : "");
+      const text =
+        inputs.length === 0 && outputs.length === 0
+          ? `No differences from ${label}.`
+          : [
+              `Compared with ${label}:`,
+              `Changed inputs (${inputs.length}):`,
+              ...inputs.slice(0, MAX_DIFF_CELLS).map(describe),
+              `Changed outputs (${outputs.length}):`,
+              ...outputs.slice(0, MAX_DIFF_CELLS).map(describe),
+            ].join("\n");
+
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: {
+          baseline: label,
+          inputs: inputs.slice(0, MAX_DIFF_CELLS),
+          outputs: outputs.slice(0, MAX_DIFF_CELLS),
+          truncated,
+        },
+      };
+    }),
   );
 
   // ---------------------------------------------------------------------------
-  // pop_nexs_display_inputs — internal, App View only.
-  //
-  // The browser polls this every second to drain the pendingDisplayInputs queue
-  // filled by set_cell.  For each entry the browser sends an {op:"input"}
-  // postMessage to the NExS iframe so the live display stays in sync with what
-  // the AI wrote, even when ontoolresult doesn't fire reliably.
+  // run_scenario
   // ---------------------------------------------------------------------------
-  registerAppTool(
-    server,
-    "pop_nexs_display_inputs",
+  // Evaluates what-if inputs in a forked NExS session.  The live session, its
+  // cache and the iframe are never written, so the user's view doesn't change.
+  server.registerTool(
+    "run_scenario",
     {
+      title: "Run NExS What-If Scenario",
       description:
-        "Internal: returns and clears pending iframe input updates queued by set_cell. " +
-        "Called by the browser polling loop — not for LLM use.",
-      outputSchema: {
+        "Evaluates a what-if scenario: applies input overrides in a private copy of " +
+        "the NExS spreadsheet and returns the chosen output cells next to their " +
+        "current live values. The spreadsheet the user is looking at is NOT changed. " +
+        "Use set_cell / set_cells instead when the user wants the change applied.",
+      inputSchema: {
         inputs: z
           .array(
             z.object({
-              viewIndex: z.number(),
-              addr: z.string(),
-              value: z.union([z.string(), z.number()]),
+              cell_ref: z
+                .string()
+                .describe("Input cell such as 'B3' or 'Sheet1!B3', or a defined name."),
+              value: z.union([z.string(), z.number()]).describe("Value to use in the scenario."),
+              sheet: z
+                .string()
+                .optional()
+                .describe("Sheet name, when cell_ref does not include one."),
             })
           )
-          .describe("Pending {viewIndex, addr, value} tuples to forward to the iframe."),
+          .min(1)
+          .max(MAX_BATCH_INPUTS)
+          .describe("Input overrides applied together in the scenario."),
+        outputs: z
+          .array(z.string())
+          .min(1)
+          .max(MAX_BATCH_INPUTS)
+          .describe("Output cells to report, e.g. ['Sheet1!F20', 'TotalRevenue']."),
+      },
+      outputSchema: {
+        outputs: z
+          .array(
+            z.object({
+              cell: z.string().describe("Output as 'Sheet!ADDR'."),
+              scenario: cellValueSchema.describe("Value under the scenario inputs."),
+              live: cellValueSchema.describe("Current value in the live spreadsheet."),
+              delta: z
+                .number()
+                .nullable()
+                .describe("scenario − live when both are numeric (to 12 significant digits), else null."),
+            })
+          )
+          .describe("Requested outputs in the order given."),
       },
-      _meta: { ui: { resourceUri: RESOURCE_URI, visibility: ["app"] } },
     },
-    async (): Promise<CallToolResult> => {
-      const inputs = nexsSession?.pendingDisplayInputs ?? [];
-      if (nexsSession) nexsSession.pendingDisplayInputs = [];
+    instrumented("run_scenario", async ({ inputs, outputs }, extra): Promise<CallToolResult> => {
+      const nexsSession = await resolveSession(extra);
+      if (!nexsSession) return noSessionResult(extra);
+
+      await waitForBrowserSeed(nexsSession);
+
+      const targets: CellWrite[] = [];
+      for (const { cell_ref, value, sheet } of inputs) {
+        const target = resolveWriteTarget(nexsSession, cell_ref, sheet);
+        if ("error" in target) return writeTargetErrorResult(target);
+        targets.push({ ...target, value });
+      }
+      const resolved = resolveOutputRefs(nexsSession, outputs);
+      if ("error" in resolved) {
+        return { isError: true, content: [{ type: "text", text: resolved.error }] };
+      }
+
+      let fork: NexsSession;
+      try {
+        fork = await forkSession(nexsSession, extra.signal);
+        await evaluateInFork(fork, targets, extra.signal);
+      } catch (err) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text:
+                `Failed to evaluate the scenario in NExS: ` +
+                `${describeNexsError(err)}`,
+            },
+          ],
+        };
+      }
+
+      const toValue = (ci: NexsCellInfo | undefined) =>
+        ci ? { value: ci.data, text: ci.text, datatype: ci.datatype } : null;
+      const rows = resolved.cells.map(({ key }) => {
+        const scenario = fork.cellCache.get(key)?.ci;
+        const live = nexsSession.cellCache.get(key)?.ci;
+        const delta = numericDelta(scenario?.data, live?.data);
+        return { cell: key, scenario: toValue(scenario), live: toValue(live), delta };
+      });
+
+      const applied = targets.map((t) => `${t.sheetName}!${t.addr} = ${t.value}`).join(", ");
+      const lines = rows.map(
+        (r) =>
+          `${r.cell}: ${r.scenario?.text ?? "(no value)"} (live ${r.live?.text ?? "(no value)"}` +
+          `${r.delta !== null ? `, Δ ${r.delta}` : ""})`
+      );
+
       return {
-        content: [],
-        structuredContent: { inputs },
+        content: [
+          {
+            type: "text",
+            text: `Scenario with ${applied} (live spreadsheet unchanged):\n${lines.join("\n")}`,
+          },
+        ],
+        structuredContent: { outputs: rows },
       };
-    }
+    }),
   );
 
   // ---------------------------------------------------------------------------
-  // get_cell
+  // sweep_inputs
   // ---------------------------------------------------------------------------
+  // Excel-style data table: evaluates outputs across a grid of input values in
+  // a forked session, one interact call per point.
+  const sweepAxisSchema = z.object({
+    cell_ref: z
+      .string()
+      .describe("Input cell to vary, such as 'B3' or 'Sheet1!B3', or a defined name."),
+    sheet: z.string().optional().describe("Sheet name, when cell_ref does not include one."),
+    values: z
+      .array(z.union([z.string(), z.number()]))
+      .optional()
+      .describe("Explicit values to try. Use this or start/stop/step."),
+    start: z.number().optional().describe("First value of a numeric range."),
+    stop: z.number().optional().describe("Last value of a numeric range (inclusive)."),
+    step: z.number().optional().describe("Increment of a numeric range; may be negative."),
+  });
+
   server.registerTool(
-    "get_cell",
+    "sweep_inputs",
     {
-      title: "Get NExS Cell Value",
+      title: "Sweep NExS Inputs",
       description:
-        "Reads the current value of a cell from the displayed NExS spreadsheet. " +
-        "Use this — NOT render_nexs_spreadsheet — when the user asks about " +
-        "quantities, values, or calculations shown in the spreadsheet. " +
-        "Returns the formatted text, raw data value, and data type.",
+        "Builds a sensitivity table like Excel's Data Table: varies one or two input " +
+        "cells over a list of values or a start/stop/step range and records the chosen " +
+        "output cells at every point. Runs in a private copy of the spreadsheet, so the " +
+        `live view is NOT changed. At most ${MAX_SWEEP_POINTS} points per call.`,
       inputSchema: {
-        cell_ref: z
-          .string()
-          .describe(
-            "Cell address such as 'A1', 'B17', or 'Sheet1!A1'. " +
-            "Named cells defined in the spreadsheet are also supported."
-          ),
-        sheet: z
-          .string()
+        row_input: sweepAxisSchema.describe("Input varied down the rows of the table."),
+        column_input: sweepAxisSchema
           .optional()
-          .describe(
-            "Sheet name. Optional when cell_ref includes the sheet (e.g. 'Sheet1!A1') " +
-            "or the spreadsheet has only one sheet."
-          ),
+          .describe("Optional second input varied across the columns (2D table)."),
+        outputs: z
+          .array(z.string())
+          .min(1)
+          .max(20)
+          .describe("Output cells to record at each point, e.g. ['Sheet1!F20']."),
       },
       outputSchema: {
-        sheet: z.string().describe("Sheet name the cell was found in."),
-        addr: z.string().describe("Cell address (e.g. 'A1')."),
-        value: z.union([z.string(), z.number()]).describe("Raw cell value."),
-        text: z.string().describe("Formatted display text."),
-        datatype: z.enum(["numeric", "string", "error", "n/a"]).describe("Cell data type."),
+        axes: z
+          .array(
+            z.object({
+              cell: z.string().describe("Swept input as 'Sheet!ADDR'."),
+              values: z.array(z.union([z.string(), z.number()])),
+            })
+          )
+          .describe("The row axis, then the column axis for a 2D sweep."),
+        outputs: z.array(z.string()).describe("Recorded outputs as 'Sheet!ADDR'."),
+        points: z
+          .array(
+            z.object({
+              inputs: z
+                .array(z.union([z.string(), z.number()]))
+                .describe("Axis values at this point, in axis order."),
+              revision: z.number().describe("Forked-session revision after evaluating this point."),
+              values: z.array(cellValueSchema).describe("Output values, in outputs order."),
+            })
+          )
+          .describe("Every evaluated point, row-major."),
+        errors: z
+          .array(
+            z.object({
+              inputs: z.array(z.union([z.string(), z.number()])),
+              cell: z.string(),
+              text: z.string(),
+            })
+          )
+          .describe("Outputs that evaluated to an error datatype, by point."),
+        table: z.string().describe("The data table(s) rendered as text."),
       },
-    },
-    async ({ cell_ref, sheet }): Promise<CallToolResult> => {
-      if (!nexsSession) {
-        return {
-          isError: true,
-          content: [
-            { type: "text", text: "No NExS spreadsheet is loaded. Call render_nexs_spreadsheet first." },
-          ],
-        };
-      }
-
-      const { sheet: parsedSheet, cell: cellAddr } = parseCellRef(cell_ref);
-      const sheetName =
-        sheet ??
-        parsedSheet ??
-        nexsSession.views.find((v) => !v.isInvisible)?.sheetName ??
-        null;
-
-      // Wait for the browser to relay the iframe's "initApp" postMessage.
-      // The iframe may start with a persistent session whose values differ from
-      // nexsInit() (e.g. user previously set quantities to 10, published values
-      // are 3 and 5).  update_nexs_cells sets seededFromBrowser = true once
-      // initApp arrives.  We wait up to 6 seconds; after that we fall back to
-      // whatever is in the cache (nexsInit values at worst).
-      if (!nexsSession.seededFromBrowser) {
-        await new Promise<void>((resolve) => {
-          const deadline = Date.now() + 6000;
-          const poll = () => {
-            if (nexsSession?.seededFromBrowser || Date.now() >= deadline) {
-              resolve();
-            } else {
-              setTimeout(poll, 200);
-            }
-          };
-          setTimeout(poll, 200);
-        });
-      }
-
-      // Search the cache for the requested cell.
-      const cacheKey = sheetName
-        ? `${sheetName}!${cellAddr.toUpperCase()}`
-        : null;
-
-      let found: { sheetName: string; ci: NexsCellInfo } | undefined;
-
-      if (cacheKey) {
-        found = nexsSession.cellCache.get(cacheKey);
-      } else {
-        const upper = cellAddr.toUpperCase();
-        for (const [key, val] of nexsSession.cellCache) {
-          if (key.endsWith(`!${upper}`)) {
-            found = val;
-            break;
-          }
-        }
-      }
-
-      if (!found) {
-        // Cell not in cache. Two possible causes:
-        //
-        // 1. Race condition: the user just edited the cell and the browser's
-        //    updateCellMap relay callServerTool is still in-flight.  Wait up
-        //    to 1 s for it to land, then retry.
-        //
-        // 2. Missing from initApp: editable input cells may not appear in the
-        //    iframe's initApp snapshot.  Fall back to a server-side interact
-        //    call (revision:0 = full current state) to retrieve them directly.
-        //    Use Promise.race to cap the interact call at 3 s so a stale/wrong
-        //    session never causes ChatGPT's MCP timeout to fire.
+    },
+    instrumented("sweep_inputs", async ({ row_input, column_input, outputs }, extra): Promise<CallToolResult> => {
+      const nexsSession = await resolveSession(extra);
+      if (!nexsSession) return noSessionResult(extra);
 
-        // --- retry delay (race condition) ---
-        await new Promise<void>((resolve) => setTimeout(resolve, 800));
-        if (cacheKey) {
-          found = nexsSession.cellCache.get(cacheKey);
-        } else {
-          const upper = cellAddr.toUpperCase();
-          for (const [key, val] of nexsSession.cellCache) {
-            if (key.endsWith(`!${upper}`)) { found = val; break; }
-          }
+      await waitForBrowserSeed(nexsSession);
+
+      const axes: Array<{ sheetName: string; addr: string; values: Array<string | number> }> = [];
+      for (const axis of column_input ? [row_input, column_input] : [row_input]) {
+        const target = resolveWriteTarget(nexsSession, axis.cell_ref, axis.sheet);
+        if ("error" in target) return writeTargetErrorResult(target);
+        const values = expandSweepValues(axis);
+        if ("error" in values) {
+          return { isError: true, content: [{ type: "text", text: `${axis.cell_ref}: ${values.error}` }] };
         }
+        axes.push({ ...target, values: values.values });
       }
 
-      if (!found && nexsSession.sessionId) {
-        // --- interact fallback (3 s timeout) ---
-        try {
-          const delta = await Promise.race([
-            nexsInteract(nexsSession.appUuid, nexsSession.sessionId, 0, []),
-            new Promise<never>((_, reject) =>
-              setTimeout(() => reject(new Error("interact timeout")), 3000)
-            ),
-          ]);
-          applyDelta(nexsSession, delta);
-          if (cacheKey) {
-            found = nexsSession.cellCache.get(cacheKey);
-          } else {
-            const upper = cellAddr.toUpperCase();
-            for (const [key, val] of nexsSession.cellCache) {
-              if (key.endsWith(`!${upper}`)) { found = val; break; }
-            }
-          }
-        } catch {
-          // timeout or network error — fall through to not-found response
-        }
+      const pointCount = axes.reduce((n, a) => n * a.values.length, 1);
+      if (pointCount > MAX_SWEEP_POINTS) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text:
+                `The sweep has ${pointCount} points; the limit is ${MAX_SWEEP_POINTS}. ` +
+                `Use fewer values or a larger step.`,
+            },
+          ],
+        };
       }
 
-      if (!found) {
-        // Return a response that satisfies the outputSchema so the host doesn't
-        // treat this as a dropped/malformed tool call.  Use datatype:"n/a" as
-        // a sentinel; the text field explains what happened and lists all known
-        // cells so the model can still extract the answer if it's visible.
-        const cacheEntries = [...nexsSession.cellCache.entries()];
-        const summary = cacheEntries.length > 0
-          ? cacheEntries.map(([key, { ci }]) => `${key}=${ci.text}`).join(", ")
-          : "(cache is empty — spreadsheet may still be initialising)";
-        const sheets = [...new Set(cacheEntries.map(([, v]) => v.sheetName))];
-        const notFoundText =
-          `Cell '${cell_ref}' is not yet available in the cache. ` +
-          `Known sheets: ${sheets.join(", ") || "none"}. ` +
-          `Currently cached: ${summary}. ` +
-          `If the spreadsheet just loaded, call get_cell again in a moment.`;
+      const resolved = resolveOutputRefs(nexsSession, outputs);
+      if ("error" in resolved) {
+        return { isError: true, content: [{ type: "text", text: resolved.error }] };
+      }
+      const outputKeys = resolved.cells.map((c) => c.key);
+
+      const combos: Array<Array<string | number>> =
+        axes.length === 1
+          ? axes[0].values.map((v) => [v])
+          : axes[0].values.flatMap((r) => axes[1].values.map((c) => [r, c]));
+
+      type CellValue = z.infer<typeof cellValueSchema>;
+      const points: Array<{ inputs: Array<string | number>; revision: number; values: CellValue[] }> = [];
+      const errors: Array<{ inputs: Array<string | number>; cell: string; text: string }> = [];
+      try {
+        const fork = await forkSession(nexsSession, extra.signal);
+        for (const combo of combos) {
+          await evaluateInFork(
+            fork,
+            axes.map((a, i) => ({ sheetName: a.sheetName, addr: a.addr, value: combo[i] })),
+            extra.signal,
+          );
+          const values = outputKeys.map((key): CellValue => {
+            const ci = fork.cellCache.get(key)?.ci;
+            if (ci?.datatype === "error") errors.push({ inputs: combo, cell: key, text: ci.text });
+            return ci ? { value: ci.data, text: ci.text, datatype: ci.datatype } : null;
+          });
+          points.push({ inputs: combo, revision: fork.revision, values });
+        }
+      } catch (err) {
         return {
-          content: [{ type: "text", text: notFoundText }],
-          structuredContent: {
-            sheet: sheetName ?? (sheets[0] ?? ""),
-            addr: cellAddr.toUpperCase(),
-            value: "not_found",
-            text: notFoundText,
-            datatype: "n/a" as const,
-          },
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text:
+                `Sweep failed after ${points.length} of ${combos.length} points: ` +
+                `${describeNexsError(err)}`,
+            },
+          ],
         };
       }
 
-      const { sheetName: foundSheet, ci } = found;
+      const cellText = (v: CellValue) => (v ? v.text.replace(/\|/g, "\\|") : "");
+      const renderTable = (rows: string[][]) =>
+        [rows[0], rows[0].map(() => "---"), ...rows.slice(1)]
+          .map((cols) => `| ${cols.join(" | ")} |`)
+          .join("\n");
+
+      let table: string;
+      if (axes.length === 1) {
+        table = renderTable([
+          [`${axes[0].sheetName}!${axes[0].addr}`, ...outputKeys],
+          ...points.map((p) => [String(p.inputs[0]), ...p.values.map(cellText)]),
+        ]);
+      } else {
+        const width = axes[1].values.length;
+        table = outputKeys
+          .map((key, o) =>
+            `${key}\n` +
+            renderTable([
+              [
+                `${axes[0].sheetName}!${axes[0].addr} ↓ / ${axes[1].sheetName}!${axes[1].addr} →`,
+                ...axes[1].values.map(String),
+              ],
+              ...axes[0].values.map((r, i) => [
+                String(r),
+                ...points.slice(i * width, (i + 1) * width).map((p) => cellText(p.values[o])),
+              ]),
+            ])
+          )
+          .join("\n\n");
+      }
+
+      const revisions = points.map((p) => p.revision);
+      const footer =
+        `${points.length} points evaluated (revisions ${revisions[0]}–${revisions[revisions.length - 1]}); ` +
+        `live spreadsheet unchanged.` +
+        (errors.length > 0 ? ` ${errors.length} output(s) evaluated to an error.` : "");
+
       return {
-        content: [
-          { type: "text", text: `${foundSheet}!${ci.addr} = ${ci.text} (${ci.datatype})` },
-        ],
+        content: [{ type: "text", text: `${table}\n\n${footer}` }],
         structuredContent: {
-          sheet: foundSheet,
-          addr: ci.addr,
-          value: ci.data,
-          text: ci.text,
-          datatype: ci.datatype,
+          axes: axes.map((a) => ({ cell: `${a.sheetName}!${a.addr}`, values: a.values })),
+          outputs: outputKeys,
+          points,
+          errors,
+          table,
         },
       };
-    }
+    }),
   );
 
   // ---------------------------------------------------------------------------
-  // set_cell
+  // goal_seek
   // ---------------------------------------------------------------------------
-  // Registered as an app tool so that ontoolresult fires in the browser,
-  // allowing spreadsheet.ts to forward the same input to the NExS iframe via
-  // postMessage and keep the live view in sync with what the AI wrote.
-  registerAppTool(
-    server,
-    "set_cell",
+  // Solves for an input value in a forked session; only the final answer (if
+  // requested) reaches the live session, through the same path as set_cell.
+  server.registerTool(
+    "goal_seek",
     {
-      title: "Set NExS Cell Value",
+      title: "NExS Goal Seek",
       description:
-        "Writes a value to an editable cell in the NExS spreadsheet and returns " +
-        "all cells that changed as a result of the backend recalculation. " +
-        "Only cells marked as editable in the spreadsheet can be written.",
+        "Finds the value of an editable input cell that makes an output cell reach a " +
+        "target, like Excel's Goal Seek. Searches between lower and upper bounds in a " +
+        "private copy of the spreadsheet; set apply=true to also write the solution to " +
+        "the live spreadsheet.",
       inputSchema: {
-        cell_ref: z
+        input_cell: z
           .string()
-          .describe("Cell address such as 'A1', 'B17', or 'Sheet1!A1'."),
-        value: z
-          .union([z.string(), z.number()])
-          .describe("New value to write to the cell."),
-        sheet: z
+          .describe("Editable input to solve for, such as 'B3' or 'Sheet1!B3', or a defined name."),
+        output_cell: z
           .string()
+          .describe("Output that should reach the target, such as 'F20', or a defined name."),
+        target: z.number().describe("Value the output cell should reach."),
+        lower: z.number().describe("Lower bound for the input value."),
+        upper: z.number().describe("Upper bound for the input value."),
+        tolerance: z
+          .number()
+          .positive()
+          .optional()
+          .describe("Stop when |output − target| is at most this. Default 1e-6."),
+        max_iterations: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_GOAL_SEEK_ITERATIONS)
+          .optional()
+          .describe("Maximum number of evaluations after the two bounds. Default 40."),
+        method: z
+          .enum(["bisection", "secant"])
           .optional()
           .describe(
-            "Sheet name. Optional when cell_ref includes the sheet or the spreadsheet has one sheet."
+            "bisection (default) needs the output to cross the target between the bounds; " +
+            "secant converges faster on smooth models."
           ),
+        apply: z
+          .boolean()
+          .optional()
+          .describe("Write the solved input to the live spreadsheet when converged. Default false."),
       },
       outputSchema: {
-        app_url: z
-          .string()
-          .url()
-          .describe(
-            "The current spreadsheet URL. Included so the host delivers this result " +
-            "to the App View (ontoolresult), enabling the iframe display to update."
-          ),
-        revision: z.number().describe("New revision number after the change."),
-        viewIndex: z
-          .number()
-          .describe("View index passed to the iframe input postMessage."),
-        addr: z.string().describe("Normalised cell address for iframe input."),
-        value: z
-          .union([z.string(), z.number()])
-          .describe("Value written, for iframe input."),
-        changed: z
+        input: z.string().describe("Solved input as 'Sheet!ADDR'."),
+        output: z.string().describe("Target output as 'Sheet!ADDR'."),
+        solution: z.number().nullable().describe("Best input value found, or null if none."),
+        achieved: cellValueSchema.describe("Output value at the solution."),
+        stopReason: z
+          .enum(["converged", "max_iterations", "non_numeric", "no_sign_change", "stalled"])
+          .describe("Why the search stopped."),
+        trace: z
           .array(
             z.object({
-              sheet: z.string(),
-              addr: z.string(),
-              value: z.union([z.string(), z.number()]),
-              text: z.string(),
+              iteration: z.number(),
+              input: z.number(),
+              output: z.union([z.string(), z.number()]),
               datatype: z.enum(["numeric", "string", "error", "n/a"]),
             })
           )
-          .describe("Cells that changed as a result of this write."),
+          .describe("Every evaluation, starting with the two bounds."),
+        applied: z.boolean().describe("True when the solution was written to the live spreadsheet."),
+        revision: z.number().nullable().describe("Live revision after applying, or null."),
       },
-      _meta: { ui: { resourceUri: RESOURCE_URI } },
     },
-    async ({ cell_ref, value, sheet }): Promise<CallToolResult> => {
-      if (!nexsSession) {
+    instrumented("goal_seek", async (
+      { input_cell, output_cell, target, lower, upper, tolerance = 1e-6, max_iterations = 40, method = "bisection", apply = false },
+      extra,
+    ): Promise<CallToolResult> => {
+      const nexsSession = await resolveSession(extra);
+      if (!nexsSession) return noSessionResult(extra);
+      if (!(lower < upper)) {
         return {
           isError: true,
-          content: [
-            { type: "text", text: "No NExS spreadsheet is loaded. Call render_nexs_spreadsheet first." },
-          ],
+          content: [{ type: "text", text: `lower (${lower}) must be less than upper (${upper}).` }],
         };
       }
 
-      const { sheet: parsedSheet, cell: cellAddr } = parseCellRef(cell_ref);
-      const sheetName =
-        sheet ??
-        parsedSheet ??
-        nexsSession.views.find((v) => !v.isInvisible)?.sheetName ??
-        null;
+      await waitForBrowserSeed(nexsSession);
 
-      if (!sheetName) {
+      const inputTarget = resolveWriteTarget(nexsSession, input_cell, undefined);
+      if ("error" in inputTarget) return writeTargetErrorResult(inputTarget);
+      const resolved = resolveOutputRefs(nexsSession, [output_cell]);
+      if ("error" in resolved) {
+        return { isError: true, content: [{ type: "text", text: resolved.error }] };
+      }
+      const outputKey = resolved.cells[0].key;
+      const inputKey = `${inputTarget.sheetName}!${inputTarget.addr}`;
+
+      const trace: Array<{
+        iteration: number;
+        input: number;
+        output: string | number;
+        datatype: NexsCellInfo["datatype"];
+      }> = [];
+      // Every evaluation with a numeric output; the closest one is the solution.
+      const numeric: Array<{ x: number; value: number; ci: NexsCellInfo }> = [];
+      let stopReason: "converged" | "max_iterations" | "non_numeric" | "no_sign_change" | "stalled" =
+        "max_iterations";
+
+      try {
+        const fork = await forkSession(nexsSession, extra.signal);
+        // Evaluates the model at x; returns output − target, or null when the
+        // output isn't numeric (text, #DIV/0! and the like).
+        const evaluate = async (x: number): Promise<number | null> => {
+          await evaluateInFork(fork, [{ ...inputTarget, value: x }], extra.signal);
+          const ci = fork.cellCache.get(outputKey)?.ci;
+          trace.push({
+            iteration: trace.length,
+            input: x,
+            output: ci?.data ?? "",
+            datatype: ci?.datatype ?? "n/a",
+          });
+          if (!ci || ci.datatype !== "numeric" || typeof ci.data !== "number") return null;
+          numeric.push({ x, value: ci.data, ci });
+          return ci.data - target;
+        };
+
+        let x0 = lower;
+        let x1 = upper;
+        let f0 = await evaluate(x0);
+        let f1 = f0 === null ? null : await evaluate(x1);
+
+        if (f0 === null || f1 === null) {
+          stopReason = "non_numeric";
+        } else if (Math.abs(f0) <= tolerance || Math.abs(f1) <= tolerance) {
+          stopReason = "converged";
+        } else if (method === "bisection" && Math.sign(f0) === Math.sign(f1)) {
+          stopReason = "no_sign_change";
+        } else {
+          for (let i = 0; i < max_iterations; i++) {
+            let x: number;
+            if (method === "bisection") {
+              x = (x0 + x1) / 2;
+            } else {
+              if (f1 === f0) {
+                stopReason = "stalled";
+                break;
+              }
+              x = x1 - (f1 * (x1 - x0)) / (f1 - f0);
+              x = Math.min(upper, Math.max(lower, x));
+            }
+            const fx = await evaluate(x);
+            if (fx === null) {
+              stopReason = "non_numeric";
+              break;
+            }
+            if (Math.abs(fx) <= tolerance) {
+              stopReason = "converged";
+              break;
+            }
+            if (method === "bisection") {
+              if (Math.sign(fx) === Math.sign(f0)) {
+                x0 = x;
+                f0 = fx;
+              } else {
+                x1 = x;
+                f1 = fx;
+              }
+            } else {
+              if (x === x1) {
+                stopReason = "stalled";
+                break;
+              }
+              [x0, f0, x1, f1] = [x1, f1, x, fx];
+            }
+          }
+        }
+      } catch (err) {
         return {
           isError: true,
           content: [
             {
               type: "text",
               text:
-                "Cannot determine sheet name. Provide 'sheet' or use 'Sheet1!A1' notation.",
+                `Goal seek failed after ${trace.length} evaluations: ` +
+                `${describeNexsError(err)}`,
             },
           ],
         };
       }
 
-      let result: NexsInteractResult;
+      const solution = numeric.reduce<(typeof numeric)[number] | null>(
+        (best, point) =>
+          !best || Math.abs(point.value - target) < Math.abs(best.value - target) ? point : best,
+        null,
+      );
+      let applied = false;
+      let revision: number | null = null;
+      let resync: ResyncReason | null = null;
+      if (apply && stopReason === "converged" && solution) {
+        try {
+          ({ revision, resync } = await writeLiveCells(nexsSession, [{ ...inputTarget, value: solution.x }], {
+            signal: extra.signal,
+          }));
+          applied = true;
+        } catch (err) {
+          return {
+            isError: true,
+            content: [
+              {
+                type: "text",
+                text:
+                  `Goal seek converged on ${inputKey} = ${solution.x}, but writing it to the live ` +
+                  `spreadsheet failed: ${describeNexsError(err)}`,
+              },
+            ],
+          };
+        }
+      }
+
+      const achieved = solution
+        ? { value: solution.ci.data, text: solution.ci.text, datatype: solution.ci.datatype }
+        : null;
+      const text =
+        (solution
+          ? `${inputKey} = ${solution.x} gives ${outputKey} = ${solution.ci.text} (target ${target}). `
+          : `No numeric value of ${outputKey} was found. `) +
+        `Stopped: ${stopReason} after ${trace.length} evaluations. ` +
+        (applied
+          ? "The solution was written to the live spreadsheet."
+          : apply
+            ? "The live spreadsheet was not changed because the search did not converge."
+            : "The live spreadsheet was not changed.") +
+        resyncNote(resync);
+
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: {
+          input: inputKey,
+          output: outputKey,
+          solution: solution?.x ?? null,
+          achieved,
+          stopReason,
+          trace,
+          applied,
+          revision,
+        },
+      };
+    }),
+  );
+
+  // ---------------------------------------------------------------------------
+  // export_spreadsheet + nexs://{appUuid}/export/{format} resource
+  // ---------------------------------------------------------------------------
+  server.registerTool(
+    "export_spreadsheet",
+    {
+      title: "Export NExS Spreadsheet",
+      description:
+        "Exports the spreadsheet's current cell values as CSV (one document per sheet), " +
+        "structured JSON, or an XLSX workbook, laid out by cell address. Use this to " +
+        "pull model outputs into reports. The same data is available as the resources " +
+        "nexs://{appUuid}/export/{format} and nexs://{appUuid}/export/{format}/{sheet}.",
+      inputSchema: {
+        format: z.enum(EXPORT_FORMATS).describe("Output format."),
+        sheet: z.string().optional().describe("Export only this sheet. Default: every sheet."),
+        include_formulas: z
+          .boolean()
+          .optional()
+          .describe("Write formulas (where known) instead of computed values. Default false."),
+        formatted_text: z
+          .boolean()
+          .optional()
+          .describe("CSV only: write formatted display text instead of raw values. Default false."),
+      },
+    },
+    instrumented("export_spreadsheet", async ({ format, sheet, include_formulas = false, formatted_text = false }, extra): Promise<CallToolResult> => {
+      const nexsSession = await resolveSession(extra);
+      if (!nexsSession) return noSessionResult(extra);
+
+      await waitForBrowserSeed(nexsSession);
+
+      let contents: ReturnType<typeof renderExport>;
       try {
-        result = await nexsInteract(
-          nexsSession.appUuid,
-          nexsSession.sessionId,
-          nexsSession.revision,
-          [[sheetName, cellAddr, value]],
+        contents = renderExport(
+          nexsSession,
+          format,
+          { includeFormulas: include_formulas, formattedText: formatted_text },
+          sheet,
         );
       } catch (err) {
+        return {
+          isError: true,
+          content: [{ type: "text", text: err instanceof Error ? err.message : String(err) }],
+        };
+      }
+      if (contents.length === 0) {
         return {
           isError: true,
           content: [
             {
               type: "text",
-              text: `Failed to write to NExS: ${err instanceof Error ? err.message : String(err)}`,
+              text: sheet
+                ? `Sheet '${sheet}' has no cells. Call describe_spreadsheet to see the sheets.`
+                : "The spreadsheet has no cells yet. If it just loaded, try again in a moment.",
             },
           ],
         };
       }
 
-      applyDelta(nexsSession, result);
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              `Exported ${format.toUpperCase()} at revision ${nexsSession.revision}: ` +
+              contents.map((c) => c.uri).join(", "),
+          },
+          ...contents.map((resource) => ({ type: "resource" as const, resource })),
+        ],
+      };
+    }),
+  );
+
+  // Whole workbook at nexs://{appUuid}/export/{format}; one sheet at
+  // nexs://{appUuid}/export/{format}/{sheet}.  Resource reads use the default
+  // options (computed values, raw data).
+  const readExport = async (
+    uri: URL,
+    variables: Record<string, string | string[]>,
+    extra: ToolExtra,
+  ): Promise<ReadResourceResult> => {
+    const one = (v: string | string[] | undefined) => (Array.isArray(v) ? v[0] : v);
+    const format = one(variables.format) as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      throw new Error(`Unknown export format '${format}'. Use one of: ${EXPORT_FORMATS.join(", ")}.`);
+    }
+    const nexsSession = await resolveSessionByUuid(extra, one(variables.appUuid) ?? "");
+    if (!nexsSession) {
+      throw new Error(`No rendered NExS app matches ${uri.href}. Call render_nexs_spreadsheet first.`);
+    }
+    const sheet = one(variables.sheet);
+    return {
+      contents: renderExport(
+        nexsSession,
+        format,
+        { includeFormulas: false, formattedText: false },
+        sheet ? decodeURIComponent(sheet) : undefined,
+      ),
+    };
+  };
 
-      const changed = result.values.map(([sn, ci]) => ({
-        sheet: sn,
-        addr: ci.addr,
-        value: ci.data,
-        text: ci.text,
-        datatype: ci.datatype as "numeric" | "string" | "error" | "n/a",
-      }));
+  server.registerResource(
+    "NExS Spreadsheet Export",
+    new ResourceTemplate("nexs://{appUuid}/export/{format}", {
+      list: undefined,
+      complete: { format: () => [...EXPORT_FORMATS] },
+    }),
+    { description: "Current cell values of a rendered NExS app as csv, json or xlsx." },
+    readExport,
+  );
 
-      const summary =
-        changed.length > 0
-          ? changed.map((c) => `${c.sheet}!${c.addr} = ${c.text}`).join(", ")
-          : `${sheetName}!${cellAddr} set (no downstream changes reported)`;
+  server.registerResource(
+    "NExS Sheet Export",
+    new ResourceTemplate("nexs://{appUuid}/export/{format}/{sheet}", {
+      list: undefined,
+      complete: { format: () => [...EXPORT_FORMATS] },
+    }),
+    { description: "Current cell values of one sheet of a rendered NExS app as csv, json or xlsx." },
+    readExport,
+  );
 
-      // viewIndex is needed by the browser to forward the input to the iframe.
-      // Find the view whose sheetName matches; fall back to the first visible view.
-      const viewIndex = (() => {
-        const idx = nexsSession.views.findIndex((v) => v.sheetName === sheetName);
-        if (idx !== -1) return idx;
-        const vis = nexsSession.views.findIndex((v) => !v.isInvisible);
-        return vis !== -1 ? vis : 0;
-      })();
-
-      // Queue the input for the browser's polling loop.  The loop calls
-      // pop_nexs_display_inputs every second and forwards each entry to the
-      // NExS iframe via {op:"input"} postMessage, keeping the live display in
-      // sync with what the AI wrote even if ontoolresult doesn't fire.
-      nexsSession.pendingDisplayInputs.push({
-        viewIndex,
-        addr: cellAddr.toUpperCase(),
-        value,
-      });
+  // ---------------------------------------------------------------------------
+  // Cell resources + subscriptions (see "Resource subscriptions" above)
+  // ---------------------------------------------------------------------------
+  const oneVar = (v: string | string[] | undefined) =>
+    decodeURIComponent((Array.isArray(v) ? v[0] : v) ?? "");
 
+  server.registerResource(
+    "NExS Sheet",
+    new ResourceTemplate(SHEET_RESOURCE_TEMPLATE, {
+      // Lists every sheet of every app this client has rendered.
+      list: async (extra) => ({
+        resources: [...((await loadClientState(extra))?.sessions.values() ?? [])].flatMap(
+          (session) =>
+            collectExportSheets(session).map((sheet) => ({
+              uri: sheetResourceUri(session.appUuid, sheet.name),
+              name: `${sheet.name} (${session.appUrl})`,
+              mimeType: "application/json",
+            }))
+        ),
+      }),
+    }),
+    {
+      description:
+        "Current values, text and formulas of every known cell on one sheet of a rendered " +
+        "NExS app. Subscribe to be notified when any of them change.",
+      mimeType: "application/json",
+    },
+    async (uri, variables, extra): Promise<ReadResourceResult> => {
+      const nexsSession = await resolveSessionByUuid(extra, oneVar(variables.appUuid));
+      if (!nexsSession) {
+        throw new McpError(ErrorCode.InvalidParams, `No rendered NExS app matches ${uri.href}.`);
+      }
+      const sheetName = oneVar(variables.sheet);
+      const [sheet] = collectExportSheets(nexsSession, sheetName);
+      if (!sheet) {
+        throw new McpError(ErrorCode.InvalidParams, `Sheet '${sheetName}' has no known cells.`);
+      }
       return {
-        content: [{ type: "text", text: `Set ${sheetName}!${cellAddr} = ${value}. Changes: ${summary}` }],
-        structuredContent: {
-          // app_url is required for the host (e.g. ChatGPT) to deliver this
-          // result to the App View so ontoolresult fires and the iframe can
-          // be updated via {op:"input"} postMessage.
-          app_url: lastSpreadsheetUrl!,
-          revision: result.revision,
-          viewIndex,
-          addr: cellAddr.toUpperCase(),
-          value,
-          changed,
-        },
+        contents: [
+          {
+            uri: sheetResourceUri(nexsSession.appUuid, sheetName),
+            mimeType: "application/json",
+            text: sheetsToJson([sheet], { includeFormulas: true, formattedText: false }, {
+              app_url: nexsSession.appUrl,
+              revision: nexsSession.revision,
+            }),
+          },
+        ],
+      };
+    }
+  );
+
+  server.registerResource(
+    "NExS Cell",
+    new ResourceTemplate(CELL_RESOURCE_TEMPLATE, { list: undefined }),
+    {
+      description:
+        "Current value, text, datatype and formula of one cell of a rendered NExS app. " +
+        "Subscribe to be notified when it changes.",
+      mimeType: "application/json",
+    },
+    async (uri, variables, extra): Promise<ReadResourceResult> => {
+      const nexsSession = await resolveSessionByUuid(extra, oneVar(variables.appUuid));
+      if (!nexsSession) {
+        throw new McpError(ErrorCode.InvalidParams, `No rendered NExS app matches ${uri.href}.`);
+      }
+      const sheetName = oneVar(variables.sheet);
+      const addr = oneVar(variables.addr).toUpperCase();
+      const hit = nexsSession.cellCache.get(`${sheetName}!${addr}`);
+      if (!hit) {
+        throw new McpError(ErrorCode.InvalidParams, `${sheetName}!${addr} is not in the cache.`);
+      }
+      const { ci } = hit;
+      return {
+        contents: [
+          {
+            uri: cellResourceUri(nexsSession.appUuid, sheetName, addr),
+            mimeType: "application/json",
+            text: JSON.stringify({
+              sheet: sheetName,
+              addr,
+              value: ci.data,
+              text: ci.text,
+              datatype: ci.datatype,
+              ...(ci.formula ? { formula: ci.formula } : {}),
+              revision: nexsSession.revision,
+            }),
+          },
+        ],
       };
     }
   );
 
+  server.server.setRequestHandler(SetLevelRequestSchema, async (request, extra) => {
+    clientLogLevels.set(resolveClientKey(extra), request.params.level);
+    return {};
+  });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    const uri = canonicalResourceUri(request.params.uri);
+    if (!uri) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Only ${SHEET_RESOURCE_TEMPLATE} and ${CELL_RESOURCE_TEMPLATE} resources can be subscribed to.`
+      );
+    }
+    let subs = subscriptions.get(uri);
+    if (!subs) subscriptions.set(uri, (subs = new Set()));
+    const clientKey = resolveClientKey(extra);
+    if (![...subs].some((s) => s.server === server.server && s.clientKey === clientKey)) {
+      subs.add({ clientKey, server: server.server });
+    }
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    const uri = canonicalResourceUri(request.params.uri);
+    const subs = uri ? subscriptions.get(uri) : undefined;
+    for (const sub of subs ?? []) {
+      if (sub.server === server.server) subs!.delete(sub);
+    }
+    if (uri && subs?.size === 0) subscriptions.delete(uri);
+    return {};
+  });
+
+  // Drop this instance's subscriptions when its connection goes away.
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    previousOnClose?.();
+    for (const [uri, subs] of subscriptions) {
+      for (const sub of subs) if (sub.server === server.server) subs.delete(sub);
+      if (subs.size === 0) subscriptions.delete(uri);
+    }
+  };
+
   // ---------------------------------------------------------------------------
   // UI resource
   // ---------------------------------------------------------------------------
@@ -797,11 +4237,13 @@ export function createServer(): McpServer {
     "NExS Spreadsheet View",
     RESOURCE_URI,
     { mimeType: RESOURCE_MIME_TYPE },
-    async (): Promise<ReadResourceResult> => {
-      const html = await fs.readFile(
-        path.join(DIST_DIR, "spreadsheet.html"),
-        "utf-8"
-      );
+    async (_uri, extra): Promise<ReadResourceResult> => {
+      // The View connects back to this server for the display stream.
+      const origin = publicOrigin(extra);
+      // The bundled View reads the allowed NExS origins from this meta tag.
+      const html = (
+        await fs.readFile(path.join(DIST_DIR, "spreadsheet.html"), "utf-8")
+      ).replace("<head>", `<head><meta name="nexs-origins" content="${nexsOrigins().join(" ")}" />`);
       return {
         contents: [
           {
@@ -811,7 +4253,10 @@ export function createServer(): McpServer {
             _meta: {
               ui: {
                 prefersBorder: true,
-                csp: { frameDomains: ["https://platform.nexs.com"] },
+                csp: {
+                  frameDomains: nexsOrigins(),
+                  ...(origin ? { connectDomains: [origin] } : {}),
+                },
               },
             },
           },
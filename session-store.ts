@@ -0,0 +1,173 @@
+/**
+ * Pluggable persistence for NExS sessions, so a restart or redeploy does not
+ * orphan the spreadsheets users still have open.
+ *
+ * A store maps a client key (see resolveClientKey in server.ts) to one JSON
+ * record holding everything the server knows about that client.  Backends:
+ *
+ *   memory  — nothing survives the process (the default)
+ *   file    — one JSON file, rewritten atomically; saves made while a write
+ *             is under way share the next one
+ *   sqlite  — one row per client via node:sqlite (Node 22.5+)
+ *
+ * Selected with SESSION_STORE; SESSION_STORE_PATH names the file or database.
+ */
+import fs from "node:fs/promises";
+import path from "node:path";
+
+export interface SessionStore<T> {
+  /** The record saved for `key`, or null. */
+  load(key: string): Promise<T | null>;
+  save(key: string, record: T): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export type SessionStoreKind = "memory" | "file" | "sqlite";
+
+const DEFAULT_PATHS: Record<Exclude<SessionStoreKind, "memory">, string> = {
+  file: "data/sessions.json",
+  sqlite: "data/sessions.db",
+};
+
+/** Keeps records for the life of the process only. */
+class MemorySessionStore<T> implements SessionStore<T> {
+  private readonly records = new Map<string, string>();
+
+  async load(key: string): Promise<T | null> {
+    const json = this.records.get(key);
+    return json === undefined ? null : (JSON.parse(json) as T);
+  }
+
+  async save(key: string, record: T): Promise<void> {
+    this.records.set(key, JSON.stringify(record));
+  }
+
+  async delete(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+}
+
+/**
+ * Keeps every record in one JSON file.  The file is read once and then
+ * rewritten through a temporary file and rename, one write at a time.  Every
+ * write serializes all clients, so saves that arrive while one is under way
+ * are coalesced into a single follow-up write; deployments with many clients
+ * should still prefer sqlite, which writes one row per save.
+ */
+class FileSessionStore<T> implements SessionStore<T> {
+  private records: Promise<Map<string, T>> | null = null;
+  /** The write under way, with any follow-ups queued behind it. */
+  private writing: Promise<void> | null = null;
+  /** Records changed since the current write took its copy. */
+  private dirty = false;
+
+  constructor(private readonly file: string) {}
+
+  private all(): Promise<Map<string, T>> {
+    this.records ??= fs.readFile(this.file, "utf-8").then(
+      (text) => new Map(Object.entries(JSON.parse(text) as Record<string, T>)),
+      (err: NodeJS.ErrnoException) => {
+        if (err.code === "ENOENT") return new Map<string, T>();
+        throw err;
+      },
+    );
+    return this.records;
+  }
+
+  private flush(records: Map<string, T>): Promise<void> {
+    this.dirty = true;
+    this.writing ??= (async () => {
+      try {
+        while (this.dirty) {
+          this.dirty = false;
+          await fs.mkdir(path.dirname(this.file), { recursive: true });
+          const tmp = `${this.file}.${process.pid}.tmp`;
+          await fs.writeFile(tmp, JSON.stringify(Object.fromEntries(records)));
+          await fs.rename(tmp, this.file);
+        }
+      } finally {
+        this.writing = null;
+      }
+    })();
+    return this.writing;
+  }
+
+  async load(key: string): Promise<T | null> {
+    return (await this.all()).get(key) ?? null;
+  }
+
+  async save(key: string, record: T): Promise<void> {
+    const records = await this.all();
+    records.set(key, record);
+    await this.flush(records);
+  }
+
+  async delete(key: string): Promise<void> {
+    const records = await this.all();
+    if (records.delete(key)) await this.flush(records);
+  }
+}
+
+/** One row per client in a SQLite database. */
+class SqliteSessionStore<T> implements SessionStore<T> {
+  private db: Promise<import("node:sqlite").DatabaseSync> | null = null;
+
+  constructor(private readonly file: string) {}
+
+  private open(): Promise<import("node:sqlite").DatabaseSync> {
+    this.db ??= (async () => {
+      // Loaded on demand: node:sqlite only exists on Node 22.5+.
+      const { DatabaseSync } = await import("node:sqlite").catch(() => {
+        throw new Error(`SESSION_STORE=sqlite needs node:sqlite (Node 22.5+); this is Node ${process.version}`);
+      });
+      await fs.mkdir(path.dirname(this.file), { recursive: true });
+      const db = new DatabaseSync(this.file);
+      db.exec(
+        "CREATE TABLE IF NOT EXISTS sessions (" +
+          "client_key TEXT PRIMARY KEY, data TEXT NOT NULL, updated_at INTEGER NOT NULL)",
+      );
+      return db;
+    })();
+    return this.db;
+  }
+
+  async load(key: string): Promise<T | null> {
+    const row = (await this.open())
+      .prepare("SELECT data FROM sessions WHERE client_key = ?")
+      .get(key) as { data: string } | undefined;
+    return row ? (JSON.parse(row.data) as T) : null;
+  }
+
+  async save(key: string, record: T): Promise<void> {
+    (await this.open())
+      .prepare(
+        "INSERT INTO sessions (client_key, data, updated_at) VALUES (?, ?, ?) " +
+          "ON CONFLICT(client_key) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at",
+      )
+      .run(key, JSON.stringify(record), Date.now());
+  }
+
+  async delete(key: string): Promise<void> {
+    (await this.open()).prepare("DELETE FROM sessions WHERE client_key = ?").run(key);
+  }
+}
+
+/**
+ * Creates the store named by SESSION_STORE (default "memory"), at
+ * SESSION_STORE_PATH or the backend's default path under ./data.
+ */
+export function createSessionStore<T>(
+  kind = (process.env.SESSION_STORE ?? "memory") as SessionStoreKind,
+  file = process.env.SESSION_STORE_PATH,
+): SessionStore<T> {
+  switch (kind) {
+    case "memory":
+      return new MemorySessionStore<T>();
+    case "file":
+      return new FileSessionStore<T>(file ?? DEFAULT_PATHS.file);
+    case "sqlite":
+      return new SqliteSessionStore<T>(file ?? DEFAULT_PATHS.sqlite);
+    default:
+      throw new Error(`Unknown SESSION_STORE "${kind}" (expected memory, file or sqlite)`);
+  }
+}
@@ -20,13 +20,20 @@
  * NExS iframe messages (initApp, updateCellMap) to the server via
  * callServerTool so get_cell stays in sync with user edits.
  *
- * The set_cell App View is a "display-only" secondary instance. It mounts
+ * The set_cell / set_cells App View is a "display-only" secondary instance. It mounts
  * a fresh NExS iframe which naturally loads the NExS session that was just
  * updated server-side by nexsInteract, showing the AI's changes.
  * Display-only mode suppresses all callServerTool relay calls from the iframe
  * to prevent MCP interference with concurrent model tool calls.
  *
- * Note: {op:"input"} postMessages are silently ignored by the NExS embed.
+ * Display sync:
+ * The primary App View forwards every model write to the iframe as an
+ * {op:"input"} postMessage.  Writes are pushed over the server-sent event
+ * stream named by display_stream_url; when that is null or the stream cannot
+ * be opened, the View falls back to polling pop_nexs_display_inputs.
+ *
+ * Note: {op:"input"} postMessages are silently ignored by some NExS embeds;
+ *       the display-only App View above covers those.
  * Note: Reloading the render App View's existing iframe resets to published
  *       defaults (NExS session does not survive iframe destruction).
  */
@@ -60,9 +67,27 @@ function showError(message: string) {
 
 const app = new App({ name: "NExS Spreadsheet Viewer", version: "1.0.0" });
 
+/**
+ * Logs to the browser console and to the host (notifications/message), so
+ * View problems show up alongside the server's logs in host-side debugging.
+ */
+function log(level: "debug" | "info" | "error", message: string, data: Record<string, unknown> = {}) {
+  (level === "error" ? console.error : console.log)(`[nexs] ${message}`, data);
+  app.sendLog({ level, logger: "nexs-view", data: { msg: message, ...data } }).catch(() => {});
+}
+
 let capturedUrl: string | null = null;
 let mounted = false;
+/**
+ * URL of the spreadsheet mounted in this App View.  Sent with every relay call
+ * so the server patches this app's session, not whichever app the client
+ * rendered last.
+ */
+let mountedUrl: string | null = null;
+/** Origin of the mounted iframe; the only origin whose messages are handled. */
+let mountedOrigin: string | null = null;
 const REFRESH_DELAY_MS = 2000;
+const DISPLAY_POLL_MS = 1000;
 
 /**
  * True when this is a display-only App View (set_cell).
@@ -81,19 +106,27 @@ let isDisplayOnly = false;
 //   1. Iframe → parent: "hello"   (raw string — origin verification)
 //   2. Parent → iframe: "hello"   (echo back)
 //   3. Parent → iframe: {op:"init", id:iframeId}  (sent on iframe "load")
-//   4. Iframe → parent: {op:"initApp", id, name, views, session?, revision?}
+//   4. Iframe → parent: {op:"initApp", id, name, views, session?, revision?, names?}
 //
 // Without step 3 the iframe stays silent — no initApp, no updateCellMap.
 //
 // ONGOING:
-//   Iframe → parent: {op:"updateCellMap", id, cells:[...]}  on every recalc
+//   Iframe → parent: {op:"updateCellMap", id, cells:[...], revision?}  on every recalc
 //
 // PRIMARY App Views relay initApp/updateCellMap to the server.
 // DISPLAY-ONLY App Views skip the relay entirely.
 const IFRAME_ID = "nexs-iframe-0";
-const NEXS_ORIGIN = "https://platform.nexs.com";
+// The server injects the allowed NExS origins (NEXS_ORIGINS) when it serves
+// this page.
+const NEXS_ORIGINS = (
+  document.querySelector<HTMLMetaElement>('meta[name="nexs-origins"]')?.content ??
+  "https://platform.nexs.com"
+).split(/\s+/).filter(Boolean);
 
 window.addEventListener("message", (e) => {
+  // Only talk to the NExS app this View mounted.
+  if (!mountedOrigin || e.origin !== mountedOrigin) return;
+
   // Step 2: echo "hello" back for the NExS origin-verification handshake.
   if (e.data === "hello") {
     (e.source as Window | null)?.postMessage("hello", e.origin);
@@ -106,9 +139,6 @@ window.addEventListener("message", (e) => {
   } catch {
     return;
   }
-  // Only handle messages from the NExS app origin.
-  if (!e.origin.startsWith(NEXS_ORIGIN)) return;
-
   // Display-only App Views skip relay — would interfere with model tool calls.
   if (isDisplayOnly) return;
 
@@ -117,44 +147,135 @@ window.addEventListener("message", (e) => {
     const cells = views.map((v) => v.cells ?? {});
     const sheetNames = views.map((v) => v.sheetName ?? null);
     const args: Record<string, unknown> = { cells, sheetNames, isInitApp: true };
+    if (mountedUrl) args.app_url = mountedUrl;
     if (typeof data.session === "string") args.sessionId = data.session;
     if (typeof data.revision === "number") args.revision = data.revision;
+    if (Array.isArray(data.names)) args.names = data.names;
     app.callServerTool({ name: "update_nexs_cells", arguments: args }).catch(() => {});
   } else if (data.op === "updateCellMap" && Array.isArray(data.cells)) {
     app
       .callServerTool({
         name: "update_nexs_cells",
-        arguments: { cells: data.cells, isInitApp: false },
+        arguments: {
+          cells: data.cells,
+          isInitApp: false,
+          ...(typeof data.revision === "number" ? { revision: data.revision } : {}),
+          ...(mountedUrl ? { app_url: mountedUrl } : {}),
+        },
       })
       .catch(() => {});
   }
 });
 
-function mountSpreadsheet(url: string) {
-  if (!url.startsWith("https://platform.nexs.com/")) {
-    showError(
-      "Only URLs from https://platform.nexs.com are supported. " +
-        `Received: ${url}`
+// ---------------------------------------------------------------------------
+// Display sync — model writes pushed from the server
+// ---------------------------------------------------------------------------
+interface DisplayInput {
+  viewIndex: number;
+  addr: string;
+  value: string | number;
+}
+
+let displayStream: EventSource | null = null;
+let displayPollTimer: ReturnType<typeof setInterval> | null = null;
+
+function forwardDisplayInputs(inputs: DisplayInput[]) {
+  const iframe = root.querySelector("iframe") as HTMLIFrameElement | null;
+  if (!mountedOrigin) return;
+  for (const input of inputs) {
+    iframe?.contentWindow?.postMessage(
+      JSON.stringify({ op: "input", id: IFRAME_ID, ...input }),
+      mountedOrigin
     );
+  }
+}
+
+function stopDisplaySync() {
+  displayStream?.close();
+  displayStream = null;
+  if (displayPollTimer) clearInterval(displayPollTimer);
+  displayPollTimer = null;
+}
+
+function startDisplayPolling() {
+  log("info", "display sync: polling pop_nexs_display_inputs");
+  displayPollTimer = setInterval(async () => {
+    try {
+      const result = await app.callServerTool({
+        name: "pop_nexs_display_inputs",
+        arguments: mountedUrl ? { app_url: mountedUrl } : {},
+      });
+      const data = result.structuredContent as { inputs?: DisplayInput[] } | null;
+      if (data?.inputs?.length) forwardDisplayInputs(data.inputs);
+    } catch {
+      // Transient failure; try again on the next tick.
+    }
+  }, DISPLAY_POLL_MS);
+}
+
+/**
+ * Starts forwarding model writes to the iframe: over the display stream when
+ * the server offers one, otherwise by polling.  Primary App Views only.
+ */
+function startDisplaySync(streamUrl: string | null | undefined) {
+  stopDisplaySync();
+  if (isDisplayOnly) return;
+  if (!streamUrl || typeof EventSource === "undefined") {
+    startDisplayPolling();
     return;
   }
 
-  let safeUrl: string;
+  const stream = new EventSource(streamUrl);
+  displayStream = stream;
+  stream.addEventListener("inputs", (e) => {
+    forwardDisplayInputs(JSON.parse((e as MessageEvent<string>).data) as DisplayInput[]);
+  });
+  stream.onerror = () => {
+    // EventSource retries transient drops itself; CLOSED means the host
+    // blocked the connection or the server no longer knows the session.
+    if (stream.readyState !== EventSource.CLOSED || displayStream !== stream) return;
+    log("info", "display stream closed, falling back to polling");
+    displayStream = null;
+    startDisplayPolling();
+  };
+}
+
+/**
+ * The URL to load in the iframe: the server's embed URL (the app URL plus the
+ * user's NExS token, for private apps) when the result carries one.
+ */
+function embedUrlOf(result: { _meta?: Record<string, unknown> }): string | undefined {
+  const embedUrl = result._meta?.["nexs/embedUrl"];
+  return typeof embedUrl === "string" ? embedUrl : undefined;
+}
+
+function mountSpreadsheet(url: string, embedUrl?: string) {
+  let safeUrl: URL;
   try {
-    safeUrl = new URL(url).toString();
+    safeUrl = new URL(embedUrl ?? url);
+    if (new URL(url).origin !== safeUrl.origin) throw new Error("embed URL on another origin");
   } catch {
     showError("The provided URL is not valid.");
     return;
   }
+  if (!NEXS_ORIGINS.includes(safeUrl.origin)) {
+    showError(
+      `Only URLs from ${NEXS_ORIGINS.join(", ")} are supported. ` +
+        `Received: ${url}`
+    );
+    return;
+  }
 
   root.innerHTML = `<iframe id="${IFRAME_ID}" src="${safeUrl}" allowfullscreen></iframe>`;
   mounted = true;
+  mountedUrl = url;
+  mountedOrigin = safeUrl.origin;
 
   const iframe = root.querySelector("iframe") as HTMLIFrameElement;
   iframe.addEventListener("load", () => {
     iframe.contentWindow?.postMessage(
       JSON.stringify({ op: "init", id: IFRAME_ID }),
-      NEXS_ORIGIN
+      safeUrl.origin
     );
   });
 
@@ -164,11 +285,12 @@ function mountSpreadsheet(url: string) {
 app.onhostcontextchanged = applyHostContext;
 
 app.onteardown = async () => {
+  stopDisplaySync();
   return {};
 };
 
 app.onerror = (error) => {
-  console.error("[NExS MCP App] error:", error);
+  log("error", "App error", { error: String(error) });
 };
 
 app.ontoolinput = (params) => {
@@ -179,23 +301,32 @@ app.ontoolinput = (params) => {
 app.ontoolresult = (result) => {
   const structured = result.structuredContent as Record<string, unknown> | null;
 
-  console.log("[nexs] ontoolresult fired:", { viewIndex: structured?.viewIndex, addr: structured?.addr, app_url: structured?.app_url });
+  log("debug", "ontoolresult fired", {
+    viewIndex: structured?.viewIndex,
+    addr: structured?.addr,
+    app_url: structured?.app_url,
+  });
 
   // set_cell result: viewIndex and addr present in structuredContent.
-  if (structured && typeof structured.viewIndex === "number" && structured.addr) {
+  // set_cells result: an inputs array instead.
+  const isWriteResult =
+    !!structured &&
+    ((typeof structured.viewIndex === "number" && !!structured.addr) ||
+      Array.isArray(structured.inputs));
+  if (structured && isWriteResult) {
     const iframe = root.querySelector("iframe") as HTMLIFrameElement | null;
-    console.log("[nexs] set_cell path: iframe=", iframe ? "found" : "null");
+    log("debug", "set_cell result", { iframe: iframe ? "found" : "null" });
 
     if (!iframe && !mounted) {
       // Fresh set_cell App View. Mount in display-only mode so the iframe
       // naturally loads the NExS session that nexsInteract just updated.
       // Relay is suppressed to avoid MCP interference with model tool calls.
-      console.log("[nexs] set_cell: mounting display-only iframe");
+      log("info", "set_cell: mounting display-only iframe");
       isDisplayOnly = true;
       const url = structured.app_url as string | undefined;
-      if (url) mountSpreadsheet(url);
+      if (url) mountSpreadsheet(url, embedUrlOf(result));
     } else {
-      console.log("[nexs] set_cell: iframe exists — changes shown in model response");
+      log("debug", "set_cell: iframe exists, changes shown in model response");
     }
     return;
   }
@@ -212,12 +343,13 @@ app.ontoolresult = (result) => {
   // Skip remounting if the iframe is already showing this URL.
   const existing = root.querySelector("iframe") as HTMLIFrameElement | null;
   try {
-    if (existing && existing.src === new URL(url).toString()) return;
+    if (existing && existing.src === new URL(embedUrlOf(result) ?? url).toString()) return;
   } catch {
     // URL parse failed — fall through to mountSpreadsheet
   }
 
-  mountSpreadsheet(url);
+  mountSpreadsheet(url, embedUrlOf(result));
+  if (mounted) startDisplaySync(structured?.display_stream_url as string | null | undefined);
 };
 
 app.connect().then(() => {
@@ -231,8 +363,14 @@ app.connect().then(() => {
         name: "restore_nexs_spreadsheet",
         arguments: {},
       });
-      const data = result.structuredContent as { app_url?: string | null } | null;
-      if (data?.app_url && !mounted) mountSpreadsheet(data.app_url);
+      const data = result.structuredContent as {
+        app_url?: string | null;
+        display_stream_url?: string | null;
+      } | null;
+      if (data?.app_url && !mounted) {
+        mountSpreadsheet(data.app_url, embedUrlOf(result));
+        if (mounted) startDisplaySync(data.display_stream_url);
+      }
     } catch {
       // callServerTool not supported or restore tool unavailable
     }
@@ -0,0 +1,166 @@
+/**
+ * What-if tools that work in private forks — run_scenario, sweep_inputs and
+ * goal_seek — and export_spreadsheet with its resources.
+ */
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { startHarness, structured, textOf, type Harness } from "./harness.js";
+
+interface CellValue {
+  value: string | number;
+  text: string;
+}
+
+let h: Harness;
+
+before(async () => {
+  h = await startHarness();
+  await h.render();
+});
+
+after(async () => {
+  await h.close();
+});
+
+async function value(cellRef: string): Promise<string | number> {
+  return structured<CellValue>(await h.call("get_cell", { cell_ref: cellRef })).value;
+}
+
+/** The embedded resources of an export result. */
+function resources(result: CallToolResult) {
+  return result.content.flatMap((c) => (c.type === "resource" ? [c.resource] : []));
+}
+
+test("run_scenario evaluates overrides without touching the live spreadsheet", async () => {
+  const { outputs } = structured<{
+    outputs: Array<{ cell: string; scenario: CellValue | null; live: CellValue | null; delta: number | null }>;
+  }>(
+    await h.call("run_scenario", {
+      inputs: [{ cell_ref: "Principal", value: 200000 }],
+      outputs: ["MonthlyPayment", "Loan!A1"],
+    }),
+  );
+  assert.deepEqual(
+    outputs.map((o) => [o.cell, o.scenario?.value, o.live?.value, o.delta]),
+    [
+      ["Loan!B4", 1073.64, 1342.05, -268.41],
+      ["Loan!A1", "Principal", "Principal", null],
+    ],
+  );
+  assert.equal(await value("Loan!B1"), 250000);
+});
+
+test("run_scenario rejects formula cells as inputs", async () => {
+  const result = await h.callRaw("run_scenario", {
+    inputs: [{ cell_ref: "Loan!B4", value: 1 }],
+    outputs: ["Loan!B5"],
+  });
+  assert.equal(result.isError, true);
+});
+
+test("sweep_inputs builds one- and two-input tables", async () => {
+  const oneWay = structured<{ points: Array<{ inputs: number[]; values: Array<CellValue | null> }> }>(
+    await h.call("sweep_inputs", {
+      row_input: { cell_ref: "Loan!B3", start: 10, stop: 30, step: 10 },
+      outputs: ["MonthlyPayment"],
+    }),
+  );
+  assert.deepEqual(
+    oneWay.points.map((p) => [p.inputs[0], p.values[0]?.value]),
+    [
+      [10, 2651.64],
+      [20, 1649.89],
+      [30, 1342.05],
+    ],
+  );
+
+  const twoWay = structured<{ points: Array<{ inputs: number[] }>; table: string }>(
+    await h.call("sweep_inputs", {
+      row_input: { cell_ref: "Loan!B3", values: [15, 30] },
+      column_input: { cell_ref: "Loan!B2", values: [0.04, 0.06] },
+      outputs: ["MonthlyPayment"],
+    }),
+  );
+  assert.deepEqual(
+    twoWay.points.map((p) => p.inputs),
+    [
+      [15, 0.04],
+      [15, 0.06],
+      [30, 0.04],
+      [30, 0.06],
+    ],
+  );
+  assert.equal(await value("Loan!B3"), 30);
+});
+
+test("goal_seek finds the input that reaches the target", async () => {
+  const result = structured<{ solution: number; achieved: CellValue; stopReason: string }>(
+    await h.call("goal_seek", {
+      input_cell: "Principal",
+      output_cell: "MonthlyPayment",
+      target: 1000,
+      lower: 0,
+      upper: 1_000_000,
+      tolerance: 0.01,
+    }),
+  );
+  assert.equal(result.stopReason, "converged");
+  assert.ok(Math.abs(Number(result.achieved.value) - 1000) <= 0.01);
+  assert.equal(await value("Loan!B1"), 250000);
+});
+
+test("goal_seek with apply writes the solution to the live spreadsheet", async () => {
+  const result = structured<{ solution: number }>(
+    await h.call("goal_seek", {
+      input_cell: "Loan!B3",
+      output_cell: "MonthlyPayment",
+      target: 2651.64,
+      lower: 5,
+      upper: 40,
+      method: "secant",
+      apply: true,
+    }),
+  );
+  assert.ok(Math.abs(result.solution - 10) < 0.01);
+  assert.equal(await value("Loan!B1"), 250000);
+  assert.ok(Math.abs(Number(await value("Loan!B3")) - 10) < 0.01);
+
+  await h.call("undo_last_change");
+  assert.equal(await value("Loan!B3"), 30);
+});
+
+test("export_spreadsheet writes CSV per sheet", async () => {
+  const result = await h.call("export_spreadsheet", { format: "csv" });
+  assert.match(textOf(result), /Exported CSV/);
+  const docs = resources(result);
+  assert.deepEqual(
+    docs.map((d) => d.uri.replace(/^nexs:\/\/[^/]+/, "")),
+    ["/export/csv/Loan", "/export/csv/Summary"],
+  );
+  const loan = docs[0];
+  assert.ok("text" in loan);
+  assert.equal(loan.text.split(/\r?\n/)[0], "Principal,250000");
+});
+
+test("export_spreadsheet writes JSON and XLSX, and the resources match", async () => {
+  const json = resources(await h.call("export_spreadsheet", { format: "json", sheet: "Summary" }));
+  assert.equal(json.length, 1);
+  assert.ok("text" in json[0]);
+  assert.match(json[0].text, /"Payments"/);
+
+  const xlsx = resources(await h.call("export_spreadsheet", { format: "xlsx" }));
+  assert.equal(xlsx.length, 1);
+  assert.ok("blob" in xlsx[0]);
+  // An XLSX file is a zip archive.
+  assert.equal(Buffer.from(xlsx[0].blob, "base64").subarray(0, 2).toString(), "PK");
+
+  const read = await h.client.readResource({ uri: json[0].uri });
+  const sheets = (text: string) => JSON.parse(text).sheets;
+  assert.deepEqual(sheets((read.contents[0] as { text: string }).text), sheets(json[0].text));
+});
+
+test("export_spreadsheet rejects an unknown sheet", async () => {
+  const result = await h.callRaw("export_spreadsheet", { format: "csv", sheet: "Nope" });
+  assert.equal(result.isError, true);
+});
@@ -0,0 +1,268 @@
+/**
+ * Reading and writing cells of the live spreadsheet: render, get_cell /
+ * get_range, set_cell / set_cells, undo / redo, snapshots and diffs, plus the
+ * tools the App View calls.  The tests share one session and run in order.
+ */
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { startHarness, structured, textOf, type Harness } from "./harness.js";
+
+interface Cell {
+  value: string | number;
+  text: string;
+}
+
+interface WriteResult {
+  revision: number;
+  inputs?: Array<{ viewIndex: number; addr: string; value: string | number }>;
+  changed: Array<{ sheet: string; addr: string; value: string | number }>;
+  resync: string | null;
+}
+
+interface Change {
+  cell: string;
+  beforeValue: string | number | null;
+  afterValue: string | number | null;
+  delta: number | null;
+}
+
+interface DiffResult {
+  baseline: string;
+  inputs: Change[];
+  outputs: Change[];
+}
+
+let h: Harness;
+
+before(async () => {
+  h = await startHarness();
+});
+
+after(async () => {
+  await h.close();
+});
+
+async function value(cellRef: string): Promise<string | number> {
+  return structured<Cell>(await h.call("get_cell", { cell_ref: cellRef })).value;
+}
+
+test("tools ask for a spreadsheet before one is rendered", async () => {
+  const result = await h.callRaw("get_cell", { cell_ref: "Loan!B1" });
+  assert.equal(result.isError, true);
+  assert.match(textOf(result), /render_nexs_spreadsheet/);
+});
+
+test("render_nexs_spreadsheet opens the app and restore_nexs_spreadsheet returns it", async () => {
+  const rendered = structured<{ app_url: string }>(await h.render());
+  assert.equal(rendered.app_url, h.appUrl);
+
+  const restored = structured<{ app_url: string | null }>(await h.call("restore_nexs_spreadsheet"));
+  assert.equal(restored.app_url, h.appUrl);
+});
+
+test("render_nexs_spreadsheet rejects URLs outside the NExS origins", async () => {
+  const result = await h.callRaw("render_nexs_spreadsheet", { app_url: "https://example.com/app/x" });
+  assert.equal(result.isError, true);
+});
+
+test("get_cell reads by address and by defined name", async () => {
+  const byAddr = structured<Cell & { sheet: string; addr: string }>(
+    await h.call("get_cell", { cell_ref: "Loan!B4" }),
+  );
+  assert.deepEqual([byAddr.sheet, byAddr.addr, byAddr.value], ["Loan", "B4", 1342.05]);
+  assert.equal(await value("MonthlyPayment"), 1342.05);
+  assert.equal(await value("Summary!B2"), 360);
+});
+
+test("get_cell reports cells it has no value for as not_found", async () => {
+  const missing = structured<Cell & { datatype: string }>(await h.call("get_cell", { cell_ref: "Loan!Z99" }));
+  assert.deepEqual([missing.value, missing.datatype], ["not_found", "n/a"]);
+  assert.match(missing.text, /Known sheets: Loan, Summary/);
+});
+
+test("get_range returns a grid of rows", async () => {
+  const range = structured<{ sheet: string; rows: Array<Array<Cell | null>> }>(
+    await h.call("get_range", { range: "Loan!A1:B3" }),
+  );
+  assert.equal(range.sheet, "Loan");
+  assert.deepEqual(
+    range.rows.map((row) => row.map((cell) => cell?.value)),
+    [
+      ["Principal", 250000],
+      ["Annual rate", 0.05],
+      ["Years", 30],
+    ],
+  );
+});
+
+test("list_names and describe_spreadsheet describe the workbook", async () => {
+  const { names } = structured<{ names: Array<{ name: string; sheet: string; range: string }> }>(
+    await h.call("list_names"),
+  );
+  assert.deepEqual(names, [
+    { name: "MonthlyPayment", sheet: "Loan", range: "B4" },
+    { name: "Principal", sheet: "Loan", range: "B1" },
+  ]);
+
+  const { sheets } = structured<{ sheets: Array<{ name: string; inputs: string[]; outputs: string[] }> }>(
+    await h.call("describe_spreadsheet"),
+  );
+  const loan = sheets.find((s) => s.name === "Loan");
+  assert.ok(loan);
+  assert.ok(loan.inputs.includes("B1"));
+  assert.deepEqual(loan.outputs, ["B4", "B5", "B6"]);
+});
+
+test("set_cell writes an input and returns what recalculated", async () => {
+  const result = structured<WriteResult>(await h.call("set_cell", { cell_ref: "Principal", value: 300000 }));
+  assert.equal(result.resync, null);
+  assert.ok(result.changed.some((c) => c.addr === "B4" && c.value === 1610.46));
+  assert.equal(await value("Loan!B1"), 300000);
+  assert.equal(await value("MonthlyPayment"), 1610.46);
+});
+
+test("set_cell refuses formula cells and leaves the spreadsheet alone", async () => {
+  const result = await h.callRaw("set_cell", { cell_ref: "Loan!B4", value: 1 });
+  assert.equal(result.isError, true);
+  assert.equal(await value("Loan!B4"), 1610.46);
+});
+
+test("set_cells writes several inputs in one recalculation", async () => {
+  const result = structured<WriteResult>(
+    await h.call("set_cells", {
+      cells: [
+        { cell_ref: "Loan!B2", value: 0.06 },
+        { cell_ref: "B3", sheet: "Loan", value: 15 },
+      ],
+    }),
+  );
+  assert.deepEqual(
+    result.inputs?.map((i) => [i.addr, i.value]),
+    [
+      ["B2", 0.06],
+      ["B3", 15],
+    ],
+  );
+  assert.equal(await value("MonthlyPayment"), 2531.57);
+});
+
+test("pop_nexs_display_inputs drains the writes queued for the iframe", async () => {
+  const first = structured<{ inputs: Array<{ addr: string; value: string | number }> }>(
+    await h.call("pop_nexs_display_inputs", { app_url: h.appUrl }),
+  );
+  assert.deepEqual(
+    first.inputs.map((i) => [i.addr, i.value]),
+    [
+      ["B1", 300000],
+      ["B2", 0.06],
+      ["B3", 15],
+    ],
+  );
+  const second = structured<{ inputs: unknown[] }>(
+    await h.call("pop_nexs_display_inputs", { app_url: h.appUrl }),
+  );
+  assert.deepEqual(second.inputs, []);
+});
+
+test("undo_last_change and redo step through the history", async () => {
+  await h.call("undo_last_change");
+  assert.equal(await value("Loan!B2"), 0.05);
+  assert.equal(await value("Loan!B3"), 30);
+
+  await h.call("undo_last_change");
+  assert.equal(await value("Loan!B1"), 250000);
+
+  await h.call("redo");
+  assert.equal(await value("Loan!B1"), 300000);
+
+  await h.call("redo");
+  assert.equal(await value("Loan!B3"), 15);
+
+  const nothing = await h.callRaw("redo");
+  assert.equal(nothing.isError, true);
+  assert.match(textOf(nothing), /nothing to redo/);
+});
+
+test("undo_last_change reverts edits the user made in the view", async () => {
+  await h.userEdit("Loan", "B3", 20);
+  assert.equal(await value("Loan!B3"), 20);
+  assert.equal(await value("MonthlyPayment"), 2149.29);
+
+  const result = await h.call("undo_last_change");
+  assert.match(textOf(result), /Undid user edit/);
+  assert.equal(await value("Loan!B3"), 15);
+});
+
+test("save_snapshot and restore_snapshot put the inputs back", async () => {
+  await h.call("save_snapshot", { name: "base" });
+  await h.call("set_cell", { cell_ref: "Loan!B1", value: 100000 });
+
+  const restored = structured<WriteResult>(await h.call("restore_snapshot", { name: "base" }));
+  assert.deepEqual(
+    restored.inputs?.map((i) => [i.addr, i.value]),
+    [["B1", 300000]],
+  );
+  assert.equal(await value("Loan!B1"), 300000);
+
+  const again = structured<WriteResult>(await h.call("restore_snapshot", { name: "base" }));
+  assert.deepEqual(again.changed, []);
+  assert.equal(again.resync, null);
+
+  const missing = await h.callRaw("restore_snapshot", { name: "nope" });
+  assert.equal(missing.isError, true);
+  assert.match(textOf(missing), /Saved snapshots: base/);
+});
+
+test("diff_spreadsheet compares with the published model and with a snapshot", async () => {
+  const published = structured<DiffResult>(await h.call("diff_spreadsheet"));
+  assert.deepEqual(
+    published.inputs.map((c) => [c.cell, c.beforeValue, c.afterValue, c.delta]),
+    [
+      ["Loan!B1", 250000, 300000, 50000],
+      ["Loan!B2", 0.05, 0.06, 0.01],
+      ["Loan!B3", 30, 15, -15],
+    ],
+  );
+  assert.ok(published.outputs.some((c) => c.cell === "Loan!B4" && c.afterValue === 2531.57));
+
+  await h.call("set_cell", { cell_ref: "Loan!B2", value: 0.07 });
+  const snapshot = structured<DiffResult>(
+    await h.call("diff_spreadsheet", { against: "snapshot", snapshot: "base" }),
+  );
+  assert.deepEqual(
+    snapshot.inputs.map((c) => [c.cell, c.delta]),
+    [["Loan!B2", 0.01]],
+  );
+});
+
+test("diff_spreadsheet rebuilds an earlier revision across undo", async () => {
+  const { revision } = structured<WriteResult>(await h.call("set_cell", { cell_ref: "Loan!B1", value: 111 }));
+  await h.call("undo_last_change");
+
+  const diff = structured<DiffResult>(await h.call("diff_spreadsheet", { against: "revision", revision }));
+  assert.deepEqual(
+    diff.inputs.map((c) => [c.cell, c.beforeValue, c.afterValue]),
+    [["Loan!B1", 111, 300000]],
+  );
+
+  const future = await h.callRaw("diff_spreadsheet", { against: "revision", revision: revision + 100 });
+  assert.equal(future.isError, true);
+  assert.match(textOf(future), /outside the recorded history/);
+});
+
+test("diff_spreadsheet against the current revision finds no differences", async () => {
+  const { revision } = structured<WriteResult>(await h.call("set_cell", { cell_ref: "Loan!B3", value: 25 }));
+  const diff = structured<DiffResult>(await h.call("diff_spreadsheet", { against: "revision", revision }));
+  assert.deepEqual([diff.inputs, diff.outputs], [[], []]);
+});
+
+test("diff_spreadsheet places edits made in the view at their own revision", async () => {
+  const { revision } = structured<WriteResult>(await h.call("set_cell", { cell_ref: "Loan!B2", value: 0.05 }));
+  await h.userEdit("Loan", "B2", 0.06);
+
+  const diff = structured<DiffResult>(await h.call("diff_spreadsheet", { against: "revision", revision }));
+  assert.deepEqual(
+    diff.inputs.map((c) => [c.cell, c.beforeValue, c.afterValue]),
+    [["Loan!B2", 0.05, 0.06]],
+  );
+});
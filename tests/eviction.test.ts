@@ -0,0 +1,89 @@
+/**
+ * Session limits: least-recently-used eviction past MAX_LIVE_SESSIONS, the
+ * idle TTL, administrative purges, and the "expired, re-render" error tools
+ * return afterwards.  A second client stands in for other users' sessions.
+ */
+import assert from "node:assert/strict";
+import { after, before, mock, test } from "node:test";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { startHarness, structured, textOf, type Harness } from "./harness.js";
+
+process.env.MAX_LIVE_SESSIONS = "1";
+process.env.SESSION_IDLE_TTL_MINUTES = "1";
+
+let h: Harness;
+let other: Client;
+
+before(async () => {
+  h = await startHarness();
+  other = await h.connectClient("other");
+});
+
+after(async () => {
+  mock.timers.reset();
+  await h.close();
+});
+
+/**
+ * Renders the app as another client.  A render that opens a session sweeps
+ * every client's sessions.
+ */
+async function renderAs(client: Client): Promise<void> {
+  const result = (await client.callTool({
+    name: "render_nexs_spreadsheet",
+    arguments: { app_url: h.appUrl },
+  })) as CallToolResult;
+  assert.equal(result.isError, undefined);
+}
+
+async function readPrincipal(): Promise<CallToolResult> {
+  return h.callRaw("get_cell", { cell_ref: "Principal" });
+}
+
+test("the least recently used session is evicted past MAX_LIVE_SESSIONS", async () => {
+  await h.render();
+  await renderAs(other);
+
+  const result = await readPrincipal();
+  assert.equal(result.isError, true);
+  assert.equal(
+    textOf(result),
+    "The session for this spreadsheet was closed because the server reached its limit of 1 live " +
+      `sessions. Call render_nexs_spreadsheet with ${h.appUrl} to load it again.`,
+  );
+});
+
+test("rendering again after an eviction brings the session back", async () => {
+  await h.render();
+  assert.equal(structured<{ value: number }>(await readPrincipal()).value, 250000);
+});
+
+test("purgeSessions evicts a client's sessions for an administrator", async () => {
+  const { purgeSessions } = await import("../server.js");
+  assert.equal(purgeSessions({ clientKey: "default" }), 1);
+
+  const result = await readPrincipal();
+  assert.equal(result.isError, true);
+  assert.match(textOf(result), /closed by an administrator\. Call render_nexs_spreadsheet with /);
+});
+
+test("sessions idle past SESSION_IDLE_TTL_MINUTES are evicted", async () => {
+  await h.render();
+  mock.timers.enable({ apis: ["Date"], now: Date.now() });
+  mock.timers.tick(2 * 60_000);
+  await renderAs(other);
+
+  const result = await readPrincipal();
+  assert.equal(result.isError, true);
+  assert.match(textOf(result), /closed after 1 minutes without use/);
+});
+
+test("a client is forgotten once its eviction notes lapse", async () => {
+  mock.timers.tick(25 * 60 * 60_000);
+  await renderAs(await h.connectClient("latecomer"));
+
+  const result = await readPrincipal();
+  assert.equal(result.isError, true);
+  assert.equal(textOf(result), "No NExS spreadsheet is loaded. Call render_nexs_spreadsheet first.");
+});
@@ -0,0 +1,68 @@
+/**
+ * Private forks (run_scenario, sweep_inputs, goal_seek, diff_spreadsheet
+ * against a revision) start from the published model and replay the live
+ * inputs, including cells that were blank when the app was published.
+ */
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { startHarness, structured, type Harness } from "./harness.js";
+
+interface CellValue {
+  value: string | number;
+}
+
+let h: Harness;
+
+before(async () => {
+  h = await startHarness({
+    app: { name: "Blank input", sheets: { Sheet1: { A1: 1, C1: "=A1+B1" } } },
+  });
+  await h.render();
+  // B1 has no value in the published model.
+  await h.call("set_cell", { cell_ref: "Sheet1!B1", value: 5 });
+});
+
+after(async () => {
+  await h.close();
+});
+
+test("run_scenario keeps inputs that were blank at publish", async () => {
+  const { outputs } = structured<{ outputs: Array<{ scenario: CellValue; live: CellValue; delta: number }> }>(
+    await h.call("run_scenario", { inputs: [{ cell_ref: "Sheet1!A1", value: 10 }], outputs: ["Sheet1!C1"] }),
+  );
+  assert.deepEqual([outputs[0].scenario.value, outputs[0].live.value, outputs[0].delta], [15, 6, 9]);
+});
+
+test("sweep_inputs keeps inputs that were blank at publish", async () => {
+  const { points } = structured<{ points: Array<{ values: CellValue[] }> }>(
+    await h.call("sweep_inputs", {
+      row_input: { cell_ref: "Sheet1!A1", values: [2, 3] },
+      outputs: ["Sheet1!C1"],
+    }),
+  );
+  assert.deepEqual(points.map((p) => p.values[0].value), [7, 8]);
+});
+
+test("goal_seek keeps inputs that were blank at publish", async () => {
+  const { solution } = structured<{ solution: number }>(
+    await h.call("goal_seek", {
+      input_cell: "Sheet1!A1",
+      output_cell: "Sheet1!C1",
+      target: 20,
+      lower: 0,
+      upper: 100,
+      method: "secant",
+    }),
+  );
+  assert.ok(Math.abs(solution - 15) < 1e-6);
+});
+
+test("diff_spreadsheet against the current revision finds no differences", async () => {
+  const { revision } = structured<{ revision: number }>(
+    await h.call("set_cell", { cell_ref: "Sheet1!A1", value: 2 }),
+  );
+  const diff = structured<{ inputs: unknown[]; outputs: unknown[] }>(
+    await h.call("diff_spreadsheet", { against: "revision", revision }),
+  );
+  assert.deepEqual([diff.inputs, diff.outputs], [[], []]);
+});
@@ -0,0 +1,159 @@
+/**
+ * Shared setup for the tool tests: a fake NExS platform (fake-nexs.ts), an
+ * MCP client talking to a fresh server over an in-memory transport the way
+ * stdio hosts do, and a stand-in for the NExS iframe the View would mount.
+ *
+ * node --test runs every test file in its own process, so each file gets its
+ * own server module state; call startHarness() once per file.
+ */
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import {
+  DEMO_APP,
+  DEMO_APP_UUID,
+  startFakeNexs,
+  type FakeNexsApp,
+  type FakeNexsOptions,
+} from "../fake-nexs.js";
+
+export interface Harness {
+  client: Client;
+  /** URL of the app on the fake (the demo loan calculator unless replaced). */
+  appUrl: string;
+  /** Calls a tool and fails the test if it returns an error. */
+  call(name: string, args?: Record<string, unknown>): Promise<CallToolResult>;
+  /** Calls a tool and returns the result whether or not it is an error. */
+  callRaw(name: string, args?: Record<string, unknown>): Promise<CallToolResult>;
+  /**
+   * Renders the app, then opens the iframe's own session on the fake and
+   * relays its initApp, as the View does.
+   */
+  render(): Promise<CallToolResult>;
+  /** Edits a cell in the iframe's session and relays the updateCellMap. */
+  userEdit(sheetName: string, addr: string, value: string | number): Promise<void>;
+  /**
+   * Connects another client to the same server.  Its transport session ID
+   * sets it apart from `client` the way each Streamable HTTP session is.
+   */
+  connectClient(sessionId: string): Promise<Client>;
+  close(): Promise<void>;
+}
+
+/** The text of a result's first content block. */
+export function textOf(result: CallToolResult): string {
+  const first = result.content[0];
+  return first?.type === "text" ? first.text : "";
+}
+
+/** A result's structuredContent, typed loosely for assertions. */
+export function structured<T = Record<string, unknown>>(result: CallToolResult): T {
+  return result.structuredContent as T;
+}
+
+type FakeCells = Array<[string, { addr: string } & Record<string, unknown>]>;
+
+/** Groups cells by view index, as the iframe's initApp and updateCellMap do. */
+function viewCellMaps(views: Array<{ sheetName: string }>, values: FakeCells) {
+  return views.map(({ sheetName }) =>
+    Object.fromEntries(values.filter(([sn]) => sn === sheetName).map(([, ci]) => [ci.addr, ci])),
+  );
+}
+
+export interface HarnessOptions extends FakeNexsOptions {
+  /** Workbook to serve instead of DEMO_APP. */
+  app?: FakeNexsApp;
+}
+
+export async function startHarness({ app = DEMO_APP, ...options }: HarnessOptions = {}): Promise<Harness> {
+  const fake = await startFakeNexs({ [DEMO_APP_UUID]: app }, options);
+  process.env.NEXS_BASE_URL = fake.baseUrl;
+  process.env.LOG_LEVEL ??= "error";
+  // server.ts reads its configuration at import, so load it after the env is set.
+  const { createServer } = await import("../server.js");
+
+  const connections: Array<{ client: Client; server: ReturnType<typeof createServer> }> = [];
+  const connect = async (sessionId?: string) => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    serverTransport.sessionId = sessionId;
+    const server = createServer();
+    await server.connect(serverTransport);
+    const client = new Client({ name: "nexs-tests", version: "1.0.0" });
+    await client.connect(clientTransport);
+    connections.push({ client, server });
+    return client;
+  };
+  const client = await connect();
+
+  const appUrl = `${fake.baseUrl}/app/${DEMO_APP_UUID}`;
+  const nexs = async <T>(op: "init" | "interact", body: Record<string, unknown>): Promise<T> => {
+    const res = await fetch(`${fake.baseUrl}/api/app/${DEMO_APP_UUID}/${op}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) throw new Error(`fake NExS ${op} answered ${res.status}`);
+    return (await res.json()) as T;
+  };
+  let iframe: { session: string; views: Array<{ sheetName: string }> } | null = null;
+
+  const callRaw = async (name: string, args: Record<string, unknown> = {}) =>
+    (await client.callTool({ name, arguments: args })) as CallToolResult;
+  const call = async (name: string, args: Record<string, unknown> = {}) => {
+    const result = await callRaw(name, args);
+    if (result.isError) throw new Error(`${name} failed: ${textOf(result)}`);
+    return result;
+  };
+
+  return {
+    client,
+    appUrl,
+    call,
+    callRaw,
+    async render() {
+      const result = await call("render_nexs_spreadsheet", { app_url: appUrl });
+      const init = await nexs<{
+        session: string;
+        revision: number;
+        views: Array<{ sheetName: string }>;
+        values: FakeCells;
+      }>("init", {});
+      iframe = { session: init.session, views: init.views };
+      await call("update_nexs_cells", {
+        cells: viewCellMaps(init.views, init.values),
+        isInitApp: true,
+        sessionId: init.session,
+        revision: init.revision,
+        app_url: appUrl,
+      });
+      return result;
+    },
+    async userEdit(sheetName, addr, value) {
+      if (!iframe) throw new Error("render() first");
+      // Writes must name the latest revision, which the server may have moved.
+      const { revision } = await nexs<{ revision: number }>("interact", {
+        session: iframe.session,
+        revision: 0,
+        inputs: [],
+      });
+      const update = await nexs<{ revision: number; values: FakeCells }>("interact", {
+        session: iframe.session,
+        revision,
+        inputs: [[sheetName, addr, value]],
+      });
+      await call("update_nexs_cells", {
+        cells: viewCellMaps(iframe.views, update.values),
+        revision: update.revision,
+        app_url: appUrl,
+      });
+    },
+    connectClient: connect,
+    async close() {
+      for (const connection of connections) {
+        await connection.client.close();
+        await connection.server.close();
+      }
+      await fake.close();
+    },
+  };
+}
@@ -0,0 +1,195 @@
+/**
+ * The Streamable HTTP server in main.ts, run as its own process: API key
+ * authentication and CORS on /mcp, the probes and /metrics outside it, the
+ * admin endpoints, and sessions shared out among authenticated clients.
+ */
+import assert from "node:assert/strict";
+import { spawn, type ChildProcess } from "node:child_process";
+import { once } from "node:events";
+import net, { type AddressInfo } from "node:net";
+import { setTimeout as sleep } from "node:timers/promises";
+import { after, before, test } from "node:test";
+import { fileURLToPath } from "node:url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { DEMO_APP_UUID, startFakeNexs, type FakeNexsServer } from "../fake-nexs.js";
+import { structured, textOf } from "./harness.js";
+
+const ROOT = fileURLToPath(new URL("..", import.meta.url));
+const API_KEYS = ["key-one", "key-two"];
+const ADMIN_TOKEN = "admin-secret";
+const ALLOWED_ORIGIN = "https://host.example";
+
+let fake: FakeNexsServer;
+let server: ChildProcess;
+let baseUrl: string;
+let appUrl: string;
+const clients: Client[] = [];
+
+async function freePort(): Promise<number> {
+  const probe = net.createServer().listen(0, "127.0.0.1");
+  await once(probe, "listening");
+  const { port } = probe.address() as AddressInfo;
+  await new Promise((resolve) => probe.close(resolve));
+  return port;
+}
+
+before(async () => {
+  fake = await startFakeNexs();
+  appUrl = `${fake.baseUrl}/app/${DEMO_APP_UUID}`;
+  const port = await freePort();
+  baseUrl = `http://127.0.0.1:${port}`;
+  server = spawn(process.execPath, ["--import", "tsx", "main.ts"], {
+    cwd: ROOT,
+    stdio: ["ignore", "inherit", "inherit"],
+    env: {
+      ...process.env,
+      PORT: String(port),
+      NEXS_BASE_URL: fake.baseUrl,
+      MCP_API_KEYS: API_KEYS.join(","),
+      CORS_ORIGINS: ALLOWED_ORIGIN,
+      ADMIN_TOKEN,
+      MAX_LIVE_SESSIONS: "1",
+      LOG_LEVEL: "error",
+    },
+  });
+  for (let i = 0; ; i++) {
+    if (server.exitCode !== null) assert.fail(`main.ts exited with ${server.exitCode}`);
+    const ready = await fetch(`${baseUrl}/healthz`).then((res) => res.ok, () => false);
+    if (ready) break;
+    if (i === 200) assert.fail("main.ts did not start listening");
+    await sleep(100);
+  }
+});
+
+after(async () => {
+  for (const client of clients) await client.close();
+  if (server.exitCode === null) {
+    server.kill("SIGTERM");
+    await once(server, "exit");
+  }
+  await fake.close();
+});
+
+/** Opens an MCP session with API key `key`. */
+async function connect(key: string): Promise<{ client: Client; transport: StreamableHTTPClientTransport }> {
+  const transport = new StreamableHTTPClientTransport(new URL("/mcp", baseUrl), {
+    requestInit: { headers: { Authorization: `Bearer ${key}` } },
+  });
+  const client = new Client({ name: "nexs-tests", version: "1.0.0" });
+  await client.connect(transport);
+  clients.push(client);
+  return { client, transport };
+}
+
+async function callRaw(client: Client, name: string, args: Record<string, unknown> = {}): Promise<CallToolResult> {
+  return (await client.callTool({ name, arguments: args })) as CallToolResult;
+}
+
+/** POSTs an initialize request the way a client opens an MCP session. */
+function initialize(headers: Record<string, string> = {}): Promise<Response> {
+  return fetch(`${baseUrl}/mcp`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream", ...headers },
+    body: JSON.stringify({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: { protocolVersion: "2025-06-18", capabilities: {}, clientInfo: { name: "probe", version: "1" } },
+    }),
+  });
+}
+
+test("/mcp refuses requests without a valid API key", async () => {
+  const missing = await initialize();
+  assert.equal(missing.status, 401);
+  assert.match(missing.headers.get("www-authenticate") ?? "", /^Bearer /);
+
+  const wrong = await initialize({ Authorization: "Bearer not-a-key" });
+  assert.equal(wrong.status, 401);
+  assert.match(wrong.headers.get("www-authenticate") ?? "", /error="invalid_token"/);
+});
+
+test("the probes and /metrics answer without a key", async () => {
+  for (const probe of ["/healthz", "/readyz", "/metrics"]) {
+    assert.equal((await fetch(`${baseUrl}${probe}`)).status, 200, probe);
+  }
+});
+
+test("CORS admits only CORS_ORIGINS and exposes the MCP headers", async () => {
+  const preflight = (origin: string) =>
+    fetch(`${baseUrl}/mcp`, {
+      method: "OPTIONS",
+      headers: { Origin: origin, "Access-Control-Request-Method": "POST" },
+    });
+  const allowed = await preflight(ALLOWED_ORIGIN);
+  assert.equal(allowed.headers.get("access-control-allow-origin"), ALLOWED_ORIGIN);
+  assert.equal((await preflight("https://elsewhere.example")).headers.get("access-control-allow-origin"), null);
+
+  // Even a refused request must let the browser read why.
+  const refused = await initialize({ Origin: ALLOWED_ORIGIN });
+  assert.equal(refused.status, 401);
+  assert.match(refused.headers.get("access-control-expose-headers") ?? "", /Mcp-Session-Id,WWW-Authenticate/);
+});
+
+test("an MCP session only answers to the key that opened it", async () => {
+  const { client, transport } = await connect(API_KEYS[0]);
+  const rendered = await callRaw(client, "render_nexs_spreadsheet", { app_url: appUrl });
+  assert.equal(rendered.isError, undefined);
+  const principal = structured<{ value: number }>(await callRaw(client, "get_cell", { cell_ref: "Principal" }));
+  assert.equal(principal.value, 250000);
+
+  const borrowed = await fetch(`${baseUrl}/mcp`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+      Authorization: `Bearer ${API_KEYS[1]}`,
+      "Mcp-Session-Id": transport.sessionId ?? "",
+    },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+  });
+  assert.equal(borrowed.status, 404);
+});
+
+test("another client's render past MAX_LIVE_SESSIONS evicts the older session", async () => {
+  const [first] = clients;
+  const { client: second } = await connect(API_KEYS[1]);
+  const rendered = await callRaw(second, "render_nexs_spreadsheet", { app_url: appUrl });
+  assert.equal(rendered.isError, undefined);
+
+  const result = await callRaw(first, "get_cell", { cell_ref: "Principal" });
+  assert.equal(result.isError, true);
+  assert.match(textOf(result), /limit of 1 live sessions\. Call render_nexs_spreadsheet with /);
+});
+
+test("the admin endpoints list and purge sessions behind ADMIN_TOKEN", async () => {
+  const admin = { Authorization: `Bearer ${ADMIN_TOKEN}` };
+  assert.equal((await fetch(`${baseUrl}/admin/sessions`)).status, 401);
+
+  const { sessions } = (await (await fetch(`${baseUrl}/admin/sessions`, { headers: admin })).json()) as {
+    sessions: Array<{ clientKey: string; appUuid: string }>;
+  };
+  assert.equal(sessions.length, 1);
+  assert.match(sessions[0].clientKey, /^auth:key-[0-9a-f]{12}$/);
+
+  const purge = await fetch(`${baseUrl}/admin/sessions?client=${encodeURIComponent(sessions[0].clientKey)}`, {
+    method: "DELETE",
+    headers: admin,
+  });
+  assert.deepEqual(await purge.json(), { purged: 1 });
+
+  const result = await callRaw(clients[1], "get_cell", { cell_ref: "Principal" });
+  assert.equal(result.isError, true);
+  assert.match(textOf(result), /closed by an administrator/);
+});
+
+test("/metrics reports tool calls and the sessions in memory", async () => {
+  const metrics = await (await fetch(`${baseUrl}/metrics`)).text();
+  assert.match(metrics, /^nexs_tool_calls_total\{tool="render_nexs_spreadsheet",outcome="ok"\} 2$/m);
+  assert.match(metrics, /^nexs_tool_calls_total\{tool="get_cell",outcome="error"\} 2$/m);
+  assert.match(metrics, /^nexs_tool_call_duration_seconds_count\{tool="get_cell"\} 3$/m);
+  assert.match(metrics, /^nexs_clients 2$/m);
+  assert.match(metrics, /^nexs_live_sessions 0$/m);
+});
@@ -0,0 +1,56 @@
+/**
+ * Rate limits: each live session's budget of NExS calls and each client's
+ * budget of tool calls, and the counters they leave in /metrics.
+ */
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { renderMetrics } from "../metrics.js";
+import { startHarness, structured, textOf, type Harness } from "./harness.js";
+
+process.env.MAX_SESSION_NEXS_CALLS_PER_MINUTE = "3";
+process.env.MAX_CLIENT_CALLS_PER_MINUTE = "20";
+
+let h: Harness;
+
+before(async () => {
+  h = await startHarness();
+  await h.render();
+});
+
+after(async () => {
+  await h.close();
+});
+
+async function value(cellRef: string): Promise<string | number> {
+  return structured<{ value: string | number }>(await h.call("get_cell", { cell_ref: cellRef })).value;
+}
+
+test("writes past the session's NExS budget are refused and not applied", async () => {
+  await h.call("set_cell", { cell_ref: "Principal", value: 100000 });
+  await h.call("set_cell", { cell_ref: "Principal", value: 200000 });
+  await h.call("set_cell", { cell_ref: "Principal", value: 300000 });
+
+  const result = await h.callRaw("set_cell", { cell_ref: "Principal", value: 400000 });
+  assert.equal(result.isError, true);
+  assert.match(textOf(result), /Too many NExS calls for this spreadsheet: at most 3 per minute\. Retry after \d+ s\./);
+  assert.equal(await value("Principal"), 300000);
+});
+
+test("tool calls past the client's budget are refused", async () => {
+  let refused: string | null = null;
+  for (let i = 0; i < 20 && !refused; i++) {
+    const result = await h.callRaw("list_names");
+    if (result.isError) refused = textOf(result);
+  }
+  assert.match(refused ?? "", /Rate limit exceeded: at most 20 tool calls per minute\. Retry after \d+ s\./);
+});
+
+test("refused calls are counted in the metrics", () => {
+  const metrics = renderMetrics();
+  assert.match(metrics, /^nexs_rate_limited_total\{scope="session"\} 1$/m);
+  assert.match(metrics, /^nexs_rate_limited_total\{scope="client"\} 1$/m);
+  assert.match(metrics, /^nexs_tool_calls_total\{tool="set_cell",outcome="ok"\} 3$/m);
+  assert.match(metrics, /^nexs_tool_calls_total\{tool="set_cell",outcome="error"\} 1$/m);
+  assert.match(metrics, /^nexs_tool_calls_total\{tool="list_names",outcome="throttled"\} 1$/m);
+  assert.match(metrics, /^nexs_live_sessions 1$/m);
+});
@@ -0,0 +1,109 @@
+/**
+ * SESSION_STORE=file: a server process saves its sessions, and the next one
+ * rehydrates them on the client's first call, values, history and snapshots
+ * included.  Each server is main.ts --stdio in its own process, sharing the
+ * fake NExS platform running here.
+ */
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import { after, before, test } from "node:test";
+import { fileURLToPath } from "node:url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { getDefaultEnvironment, StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { DEMO_APP_UUID, startFakeNexs, type FakeNexsServer } from "../fake-nexs.js";
+import { structured, textOf } from "./harness.js";
+
+const ROOT = fileURLToPath(new URL("..", import.meta.url));
+
+let fake: FakeNexsServer;
+let dir: string;
+let storePath: string;
+let appUrl: string;
+
+before(async () => {
+  fake = await startFakeNexs();
+  appUrl = `${fake.baseUrl}/app/${DEMO_APP_UUID}`;
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "nexs-store-"));
+  storePath = path.join(dir, "sessions.json");
+});
+
+after(async () => {
+  await fake.close();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+/** Starts a server process on the shared store and connects to it. */
+async function startServer(): Promise<Client> {
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: ["--import", "tsx", "main.ts", "--stdio"],
+    cwd: ROOT,
+    env: {
+      ...getDefaultEnvironment(),
+      NEXS_BASE_URL: fake.baseUrl,
+      SESSION_STORE: "file",
+      SESSION_STORE_PATH: storePath,
+      LOG_LEVEL: "error",
+    },
+  });
+  const client = new Client({ name: "nexs-tests", version: "1.0.0" });
+  await client.connect(transport);
+  return client;
+}
+
+/** Calls a tool and fails the test if it returns an error. */
+async function call(client: Client, name: string, args: Record<string, unknown> = {}): Promise<CallToolResult> {
+  const result = (await client.callTool({ name, arguments: args })) as CallToolResult;
+  if (result.isError) throw new Error(`${name} failed: ${textOf(result)}`);
+  return result;
+}
+
+async function value(client: Client, cellRef: string): Promise<string | number> {
+  return structured<{ value: string | number }>(await call(client, "get_cell", { cell_ref: cellRef })).value;
+}
+
+/** Waits until the store holds the stdio client's session at `revision`. */
+async function storedAt(revision: number): Promise<void> {
+  for (let i = 0; i < 100; i++) {
+    const text = await fs.readFile(storePath, "utf-8").catch(() => "{}");
+    if (JSON.parse(text).default?.sessions[0]?.revision === revision) return;
+    await sleep(50);
+  }
+  assert.fail(`the store never reached revision ${revision}`);
+}
+
+test("a restarted server rehydrates the saved session", async () => {
+  const first = await startServer();
+  try {
+    await call(first, "render_nexs_spreadsheet", { app_url: appUrl });
+    await call(first, "set_cell", { cell_ref: "Principal", value: 300000 });
+    await call(first, "save_snapshot", { name: "base" });
+    const { revision } = structured<{ revision: number }>(
+      await call(first, "set_cell", { cell_ref: "Loan!B2", value: 0.06 }),
+    );
+    await storedAt(revision);
+  } finally {
+    await first.close();
+  }
+
+  const second = await startServer();
+  try {
+    assert.equal(await value(second, "Principal"), 300000);
+    assert.equal(await value(second, "MonthlyPayment"), 1798.65);
+    const restored = structured<{ app_url: string | null }>(await call(second, "restore_nexs_spreadsheet"));
+    assert.equal(restored.app_url, appUrl);
+
+    // The undo history and snapshots came back with it.
+    await call(second, "undo_last_change");
+    assert.equal(await value(second, "Loan!B2"), 0.05);
+    await call(second, "set_cell", { cell_ref: "Principal", value: 100000 });
+    await call(second, "restore_snapshot", { name: "base" });
+    assert.equal(await value(second, "Principal"), 300000);
+  } finally {
+    await second.close();
+  }
+});
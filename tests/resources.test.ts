@@ -0,0 +1,71 @@
+/**
+ * Sheet and cell resources and their subscriptions: writes notify the
+ * subscribed client of the URIs they changed, and only that client.
+ */
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "node:timers/promises";
+import { after, before, test } from "node:test";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { DEMO_APP_UUID } from "../fake-nexs.js";
+import { startHarness, type Harness } from "./harness.js";
+
+const PAYMENT_URI = `nexs://${DEMO_APP_UUID}/cells/Loan!B4`;
+const SUMMARY_URI = `nexs://${DEMO_APP_UUID}/sheets/Summary`;
+
+let h: Harness;
+const updated: string[] = [];
+
+before(async () => {
+  h = await startHarness();
+  h.client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+    updated.push(notification.params.uri);
+  });
+  await h.render();
+});
+
+after(async () => {
+  await h.close();
+});
+
+/** The URIs notified since the last call, once notifications in flight have arrived. */
+async function notified(): Promise<string[]> {
+  await sleep(50);
+  return updated.splice(0).sort();
+}
+
+test("reading a cell resource returns its value and revision", async () => {
+  const { contents } = await h.client.readResource({ uri: PAYMENT_URI });
+  const cell = JSON.parse((contents[0] as { text: string }).text);
+  assert.deepEqual([cell.sheet, cell.addr, cell.value], ["Loan", "B4", 1342.05]);
+  assert.equal(typeof cell.revision, "number");
+});
+
+test("a write notifies the subscribed cell and sheet resources it changed", async () => {
+  await h.client.subscribeResource({ uri: PAYMENT_URI });
+  await h.client.subscribeResource({ uri: SUMMARY_URI });
+
+  await h.call("set_cell", { cell_ref: "Principal", value: 300000 });
+  assert.deepEqual(await notified(), [PAYMENT_URI, SUMMARY_URI]);
+
+  // A label feeds nothing subscribed.
+  await h.call("set_cell", { cell_ref: "Loan!A1", value: "Loan amount" });
+  assert.deepEqual(await notified(), []);
+});
+
+test("another client's writes to the same app do not notify", async () => {
+  const other = await h.connectClient("other");
+  await other.callTool({ name: "render_nexs_spreadsheet", arguments: { app_url: h.appUrl } });
+  const write = await other.callTool({ name: "set_cell", arguments: { cell_ref: "Principal", value: 100000 } });
+  assert.equal(write.isError, undefined);
+  assert.deepEqual(await notified(), []);
+});
+
+test("unsubscribing stops the notifications for that URI", async () => {
+  await h.client.unsubscribeResource({ uri: PAYMENT_URI });
+  await h.call("set_cell", { cell_ref: "Principal", value: 200000 });
+  assert.deepEqual(await notified(), [SUMMARY_URI]);
+});
+
+test("only sheet and cell resources can be subscribed to", async () => {
+  await assert.rejects(h.client.subscribeResource({ uri: "ui://nexs/view.html" }), /can be subscribed to/);
+});
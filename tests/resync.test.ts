@@ -0,0 +1,59 @@
+/**
+ * Writes after the NExS session expired: the server starts a new session,
+ * replays the inputs the old one held, and then writes.
+ */
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "node:timers/promises";
+import { after, before, test } from "node:test";
+import { startHarness, structured, textOf, type Harness } from "./harness.js";
+
+const SESSION_TTL_MS = 200;
+
+let h: Harness;
+
+before(async () => {
+  h = await startHarness({ sessionTtlMs: SESSION_TTL_MS });
+  await h.render();
+});
+
+after(async () => {
+  await h.close();
+});
+
+async function value(cellRef: string): Promise<string | number> {
+  return structured<{ value: string | number }>(await h.call("get_cell", { cell_ref: cellRef })).value;
+}
+
+test("set_cell resyncs an expired session and keeps earlier inputs", async () => {
+  const first = structured<{ resync: string | null }>(
+    await h.call("set_cell", { cell_ref: "Principal", value: 300000 }),
+  );
+  assert.equal(first.resync, null);
+
+  await sleep(SESSION_TTL_MS * 2);
+
+  const result = await h.call("set_cell", { cell_ref: "Loan!B2", value: 0.06 });
+  const second = structured<{ resync: string | null }>(result);
+  assert.equal(second.resync, "session_expired");
+  assert.match(textOf(result), /session had expired/);
+  assert.equal(await value("Loan!B1"), 300000);
+  assert.equal(await value("Loan!B2"), 0.06);
+  assert.equal(await value("MonthlyPayment"), 1798.65);
+
+  // The new session numbers revisions afresh from the replayed inputs on;
+  // anything before them can no longer be rebuilt.
+  const replayed = structured<{ inputs: Array<{ cell: string }> }>(
+    await h.call("diff_spreadsheet", { against: "revision", revision: 2 }),
+  );
+  assert.deepEqual(replayed.inputs.map((c) => c.cell), ["Loan!B2"]);
+  const older = await h.callRaw("diff_spreadsheet", { against: "revision", revision: 1 });
+  assert.equal(older.isError, true);
+  assert.match(textOf(older), /outside the recorded history/);
+});
+
+test("undo after a resync writes to the new session", async () => {
+  await h.call("undo_last_change");
+  assert.equal(await value("Loan!B2"), 0.05);
+  assert.equal(await value("Loan!B1"), 300000);
+  assert.equal(await value("MonthlyPayment"), 1610.46);
+});